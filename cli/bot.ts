@@ -0,0 +1,146 @@
+import { io } from 'socket.io-client';
+import { Cell, PlayerGameView, ProtocolError } from '../src/types';
+import { canSelectSabotage, hasSpotAt } from '../src/lib/rules';
+import { ErrorEvent, GameSocket } from '../src/lib/protocol';
+
+// --- Headless Bot ---
+// A player without a browser: it connects over Socket.IO like the web client does and acts
+// whenever a game update says it's its turn. Used by the load test (and handy for poking at a
+// server by hand). The bot never creates or joins games by itself; its owner does that.
+
+// How a bot picks its columns: at random among the open ones, or by cycling through a fixed
+// list (skipping full columns, and falling back to random when the whole list is full)
+export type MoveStrategy = { kind: 'random' } | { kind: 'scripted', columns: number[] };
+
+export interface BotHooks {
+    onLatency?: (ms: number) => void; // From sending an action to the game update it caused
+    onError?: (event: ErrorEvent, error: ProtocolError) => void;
+    onGameOver?: (view: PlayerGameView) => void; // Once per game
+}
+
+export interface Bot {
+    socket: GameSocket;
+    gameId: () => string | null;
+    close: () => void;
+}
+
+export interface BotOptions {
+    url: string;
+    strategy: MoveStrategy;
+    thinkMs?: number; // Pause before each action
+    hooks?: BotHooks;
+}
+
+const ERROR_EVENTS: ErrorEvent[] = ['game_error', 'join_error', 'rejoin_error', 'register_error', 'identity_error', 'chat_error', 'tournament_error'];
+
+// After a refused action the bot tries again, waiting twice as long after each refusal in a row
+// (a rate-limit strike, or a drop the game had already moved past)
+const RETRY_DELAY_MS = { first: 250, max: 5000 };
+
+const randomItem = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// A random cell for a Sabotage Space, avoiding the bot's own spots and, if the rules ask for
+// it, occupied cells (as long as there are empty ones left)
+export const chooseSpot = (view: PlayerGameView): Cell => {
+    const cells: Cell[] = [];
+    for (let row = 0; row < view.config.rows; row++) {
+        for (let col = 0; col < view.config.cols; col++) {
+            if (!hasSpotAt(view.mySabotage, row, col)) cells.push({ row, col });
+        }
+    }
+    const emptyCells = cells.filter(({ row, col }) => view.board[row][col] === null);
+    return randomItem(view.rules.emptyCellsOnly && emptyCells.length ? emptyCells : cells);
+};
+
+export const chooseColumn = (view: PlayerGameView, strategy: MoveStrategy, moveNumber: number): number => {
+    const openColumns = view.board[0].map((cell, col) => cell === null ? col : -1).filter(col => col >= 0);
+    if (strategy.kind === 'scripted') {
+        for (let i = 0; i < strategy.columns.length; i++) {
+            const col = strategy.columns[(moveNumber + i) % strategy.columns.length];
+            if (openColumns.includes(col)) return col;
+        }
+    }
+    return randomItem(openColumns);
+};
+
+export const createBot = ({ url, strategy, thinkMs = 0, hooks = {} }: BotOptions): Bot => {
+    const socket: GameSocket = io(url, { transports: ['websocket'], forceNew: true, reconnection: false });
+    let gameId: string | null = null;
+    let view: PlayerGameView | null = null; // The latest game update
+    let sentAt: number | null = null; // Set while an action is waiting for its game update
+    let movesMade = 0;
+    let reportedGameOver = false;
+    let refusedInARow = 0;
+    let retryTimer: NodeJS.Timeout | null = null;
+
+    const act = () => {
+        const me = view?.viewerColor;
+        if (!view || !gameId || !me || sentAt !== null) return;
+        if (canSelectSabotage(view.gamePhase, view.currentPlayer, me, view.myPendingReselect)) {
+            const { row, col } = chooseSpot(view);
+            sentAt = Date.now();
+            socket.emit('select_sabotage', { gameId, row, col });
+        } else if (view.gamePhase === 'playing' && view.currentPlayer === me && !view.myPendingReselect) {
+            const col = chooseColumn(view, strategy, movesMade++);
+            sentAt = Date.now();
+            socket.emit('make_move', { gameId, col });
+        }
+    };
+
+    const onSeat = ({ gameId: seatGameId }: { gameId: string }) => {
+        gameId = seatGameId;
+    };
+    socket.on('game_created', onSeat);
+    socket.on('game_joined', onSeat);
+    socket.on('match_found', onSeat);
+
+    socket.on('game_update', (update) => {
+        view = update;
+        refusedInARow = 0;
+        if (retryTimer) {
+            clearTimeout(retryTimer); // This update is acted on instead
+            retryTimer = null;
+        }
+        if (sentAt !== null) {
+            hooks.onLatency?.(Date.now() - sentAt);
+            sentAt = null;
+        }
+        if (view.gamePhase === 'game_over') {
+            if (!reportedGameOver) {
+                reportedGameOver = true;
+                hooks.onGameOver?.(view);
+            }
+            return;
+        }
+        if (reportedGameOver) {
+            // A rematch started
+            reportedGameOver = false;
+            movesMade = 0;
+        }
+        if (thinkMs > 0) setTimeout(act, thinkMs);
+        else act();
+    });
+
+    for (const event of ERROR_EVENTS) {
+        socket.on(event, (error) => {
+            sentAt = null; // The action was refused, so no update is coming for it
+            hooks.onError?.(event, error);
+            if (retryTimer) return;
+            const delay = Math.min(RETRY_DELAY_MS.first * 2 ** refusedInARow, RETRY_DELAY_MS.max);
+            refusedInARow++;
+            retryTimer = setTimeout(() => {
+                retryTimer = null;
+                act();
+            }, delay);
+        });
+    }
+
+    return {
+        socket,
+        gameId: () => gameId,
+        close: () => {
+            if (retryTimer) clearTimeout(retryTimer);
+            socket.disconnect();
+        },
+    };
+};
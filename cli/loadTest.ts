@@ -0,0 +1,204 @@
+import { createBot, Bot, BotHooks, MoveStrategy } from './bot';
+
+// --- Load Test ---
+// Plays N games at once against a running server, each between two headless bots, and
+// reports how it went. Doubles as a smoke test before deploys: it exits with status 1 if any
+// request was refused or any game didn't finish in time.
+//
+//   npm run load-test -- --url http://localhost:3001 --pairs 20 --games 3 --moves random
+//
+// Bots act far faster than people and all connect from this machine, so start the server with
+// higher rate limits for load tests (see the README for an example).
+
+interface LoadTestOptions {
+    url: string;
+    pairs: number; // Games played at the same time
+    gamesPerPair: number; // Played one after another as rematches
+    strategy: MoveStrategy;
+    thinkMs: number;
+    rampMs: number; // Delay between starting pairs
+    timeoutMs: number;
+}
+
+const USAGE = `Usage: npm run load-test -- [options]
+  --url <url>         Server to test (default http://localhost:3001)
+  --pairs <n>         Games played at the same time (default 10)
+  --games <n>         Games each pair plays, as rematches (default 1)
+  --moves <strategy>  "random", or columns to cycle through, e.g. 3,3,4,2 (default random)
+  --think <ms>        Pause before each action (default 0)
+  --ramp <ms>         Delay between starting pairs (default 50)
+  --timeout <s>       Give up after this many seconds (default 120)`;
+
+const parsePositive = (name: string, value: string | undefined, allowZero = false): number => {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0 || (!allowZero && number === 0)) {
+        throw new Error(`--${name} expects a ${allowZero ? 'non-negative' : 'positive'} number, got "${value}".`);
+    }
+    return number;
+};
+
+const parseStrategy = (value: string | undefined): MoveStrategy => {
+    if (!value || value === 'random') return { kind: 'random' };
+    const columns = value.split(',').map(Number);
+    if (!columns.length || columns.some(col => !Number.isInteger(col) || col < 0)) {
+        throw new Error(`--moves expects "random" or a list of columns like 3,3,4,2, got "${value}".`);
+    }
+    return { kind: 'scripted', columns };
+};
+
+const parseArgs = (args: string[]): LoadTestOptions => {
+    const options: LoadTestOptions = {
+        url: 'http://localhost:3001',
+        pairs: 10,
+        gamesPerPair: 1,
+        strategy: { kind: 'random' },
+        thinkMs: 0,
+        rampMs: 50,
+        timeoutMs: 120000,
+    };
+    for (let i = 0; i < args.length; i += 2) {
+        const [flag, value] = [args[i], args[i + 1]];
+        switch (flag) {
+            case '--url': options.url = value; break;
+            case '--pairs': options.pairs = Math.floor(parsePositive('pairs', value)); break;
+            case '--games': options.gamesPerPair = Math.floor(parsePositive('games', value)); break;
+            case '--moves': options.strategy = parseStrategy(value); break;
+            case '--think': options.thinkMs = parsePositive('think', value, true); break;
+            case '--ramp': options.rampMs = parsePositive('ramp', value, true); break;
+            case '--timeout': options.timeoutMs = parsePositive('timeout', value) * 1000; break;
+            default: throw new Error(`Unknown option ${flag}.`);
+        }
+    }
+    return options;
+};
+
+// --- Results ---
+interface LoadTestResults {
+    latencies: number[];
+    errors: { [code: string]: number };
+    gamesCompleted: number;
+    outcomes: { red: number, yellow: number, draw: number };
+    startedAt: number;
+}
+
+const percentile = (sorted: number[], p: number): number => {
+    if (!sorted.length) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+const printReport = (options: LoadTestOptions, results: LoadTestResults, timedOut: boolean) => {
+    const elapsedSeconds = (Date.now() - results.startedAt) / 1000;
+    const sorted = [...results.latencies].sort((a, b) => a - b);
+    const expectedGames = options.pairs * options.gamesPerPair;
+    const errorCount = Object.values(results.errors).reduce((sum, count) => sum + count, 0);
+
+    console.log(`\nLoad test against ${options.url}${timedOut ? ' (timed out)' : ''}`);
+    console.log(`  Games completed: ${results.gamesCompleted}/${expectedGames} in ${elapsedSeconds.toFixed(1)}s (${(results.gamesCompleted / elapsedSeconds).toFixed(2)} games/s)`);
+    console.log(`  Results: Red ${results.outcomes.red}, Yellow ${results.outcomes.yellow}, draws ${results.outcomes.draw}`);
+    console.log(`  Actions: ${sorted.length}, latency ms p50 ${percentile(sorted, 50)}, p90 ${percentile(sorted, 90)}, p99 ${percentile(sorted, 99)}, max ${sorted.length ? sorted[sorted.length - 1] : 0}`);
+    console.log(`  Errors: ${errorCount}${errorCount ? ` (${Object.entries(results.errors).map(([code, count]) => `${code}: ${count}`).join(', ')})` : ''}`);
+    if (results.errors.rate_limited) {
+        console.log("  Hint: bots trip the server's rate limits; raise RATE_LIMIT_* and RATE_LIMIT_*_IP for load tests.");
+    }
+};
+
+// --- Running Pairs ---
+// Red creates a game, Yellow joins it, and they play `gamesPerPair` games (rematches swap
+// colors). Resolves once the last game is over.
+const runPair = (options: LoadTestOptions, results: LoadTestResults, bots: Bot[]): Promise<void> => {
+    return new Promise(resolve => {
+        let gamesPlayed = 0;
+        const hooks: BotHooks = {
+            onLatency: (ms) => {
+                results.latencies.push(ms);
+            },
+            onError: (event, error) => {
+                results.errors[error.code] = (results.errors[error.code] ?? 0) + 1;
+                console.error(`${event} (${error.code}): ${error.message}`);
+            },
+        };
+        const host = createBot({ url: options.url, strategy: options.strategy, thinkMs: options.thinkMs, hooks });
+        const guest = createBot({
+            url: options.url,
+            strategy: options.strategy,
+            thinkMs: options.thinkMs,
+            hooks: {
+                ...hooks,
+                // Counted once per game, from the guest's side
+                onGameOver: (view) => {
+                    gamesPlayed++;
+                    results.gamesCompleted++;
+                    if (view.winner) results.outcomes[view.winner]++;
+                    else results.outcomes.draw++;
+                    const gameId = guest.gameId();
+                    if (gamesPlayed >= options.gamesPerPair || !gameId) {
+                        resolve();
+                        return;
+                    }
+                    host.socket.emit('request_rematch', { gameId });
+                    guest.socket.emit('request_rematch', { gameId });
+                },
+            },
+        });
+        bots.push(host, guest);
+
+        for (const bot of [host, guest]) {
+            bot.socket.on('connect_error', (err) => {
+                results.errors.connect_error = (results.errors.connect_error ?? 0) + 1;
+                console.error(`Connection failed: ${err.message}`);
+                resolve();
+            });
+        }
+        host.socket.on('game_created', ({ gameId }) => guest.socket.emit('join_game', gameId));
+        host.socket.emit('create_game', {});
+    });
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const runLoadTest = async (options: LoadTestOptions): Promise<boolean> => {
+    const results: LoadTestResults = { latencies: [], errors: {}, gamesCompleted: 0, outcomes: { red: 0, yellow: 0, draw: 0 }, startedAt: Date.now() };
+    const bots: Bot[] = [];
+    console.log(`Starting ${options.pairs} pair(s) of bots against ${options.url}...`);
+
+    const pairs: Promise<void>[] = [];
+    for (let i = 0; i < options.pairs; i++) {
+        pairs.push(runPair(options, results, bots));
+        if (options.rampMs > 0) await sleep(options.rampMs);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+        Promise.all(pairs).then(() => false),
+        new Promise<boolean>(resolve => {
+            timer = setTimeout(() => resolve(true), options.timeoutMs);
+        }),
+    ]);
+    clearTimeout(timer);
+    for (const bot of bots) bot.close();
+
+    printReport(options, results, timedOut);
+    const failed = timedOut || Object.keys(results.errors).length > 0 || results.gamesCompleted < options.pairs * options.gamesPerPair;
+    return !failed;
+};
+
+if (require.main === module) {
+    if (process.argv.includes('--help')) {
+        console.log(USAGE);
+        process.exit(0);
+    }
+    let options: LoadTestOptions;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (err) {
+        console.error((err as Error).message);
+        console.error(USAGE);
+        process.exit(2);
+    }
+    runLoadTest(options)
+        .then(passed => process.exit(passed ? 0 : 1))
+        .catch(err => {
+            console.error("Load test crashed:", err);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,329 @@
+import readline from 'readline';
+import { io } from 'socket.io-client';
+import { AiDifficulty, PlayerColor, PlayerGameView, ProtocolError } from '../src/types';
+import { canSelectSabotage, getOpponent, hasSpotAt } from '../src/lib/rules';
+import { formatCell, parseCell } from '../src/lib/notation';
+import { AI_DIFFICULTIES, ErrorEvent, GameSocket } from '../src/lib/protocol';
+import { summarizeGame } from '../src/lib/gameSummary';
+import { describeGameStatus } from '../src/lib/gameStatus';
+import { describeSeriesGame, SERIES_LENGTHS } from '../src/lib/series';
+
+// --- Terminal Client ---
+// Plays on the same server as the web app, from a TTY:
+//
+//   npm run terminal -- --url http://localhost:3001
+//
+// Type `help` once connected. On your turn a column number drops a piece, and a cell like
+// `c3` (column letter, row counted from the bottom, as in game records) picks a Sabotage Space.
+
+const HELP = `Commands:
+  create [length]     Create a game and wait for an opponent; 3, 5 or 7 plays a best-of match
+  computer <level>    Play the computer (easy, medium or hard)
+  join <id>           Join a game by id
+  watch <id>          Spectate a game
+  <column>            Drop a piece, e.g. 4
+  <cell>              Pick a Sabotage Space, e.g. c3
+  resign | draw | takeback | rematch
+  leave               Leave the current game
+  help | quit`;
+
+// --- ANSI Rendering ---
+const ansi = (code: string) => (text: string) => process.stdout.isTTY ? `\x1b[${code}m${text}\x1b[0m` : text;
+const red = ansi('31;1');
+const yellow = ansi('33;1');
+const dim = ansi('2');
+const bold = ansi('1');
+const green = ansi('32;1');
+const orange = ansi('38;5;208');
+const magenta = ansi('35;1');
+
+const colorName = (player: PlayerColor) => player === 'red' ? 'Red' : 'Yellow';
+const paint = (player: PlayerColor, text: string) => player === 'red' ? red(text) : yellow(text);
+
+// Each cell is three characters wide: the piece, framed by brackets when it's a Sabotage Space
+// the viewer may see (magenta for their own, the owner's color once revealed, orange if shared)
+// and by parentheses for a spot that was already triggered.
+const renderBoard = (view: PlayerGameView): string => {
+    const { rows, cols } = view.config;
+    const header = '    ' + Array.from({ length: cols }, (_, col) => String(col + 1).padStart(2).padEnd(3)).join('');
+    const lines = [header];
+    for (let row = 0; row < rows; row++) {
+        let line = `${String(rows - row).padStart(2)}  `;
+        for (let col = 0; col < cols; col++) {
+            const cell = view.board[row][col];
+            const piece = cell ? paint(cell, '●') : dim('·');
+            const isRedSpot = hasSpotAt(view.revealedSabotage?.red ?? [], row, col);
+            const isYellowSpot = hasSpotAt(view.revealedSabotage?.yellow ?? [], row, col);
+            const triggered = view.triggeredSpots.some(spot => spot.row === row && spot.col === col);
+            if (isRedSpot && isYellowSpot) line += orange('[') + piece + orange(']');
+            else if (isRedSpot) line += red('[') + piece + red(']');
+            else if (isYellowSpot) line += yellow('[') + piece + yellow(']');
+            else if (hasSpotAt(view.mySabotage, row, col)) line += magenta('[') + piece + magenta(']');
+            else if (triggered) line += dim('(') + piece + dim(')');
+            else line += ` ${piece} `;
+        }
+        lines.push(line);
+    }
+    lines.push('    ' + Array.from({ length: cols }, (_, col) => ` ${String.fromCharCode(97 + col)} `).join(''));
+    return lines.join('\n');
+};
+
+// --- Status Message ---
+const renderStatus = (view: PlayerGameView, gameId: string | null, isSpectating: boolean): string => {
+    const status = describeGameStatus(view, isSpectating);
+    switch (status.kind) {
+        case 'text': return status.text;
+        case 'opponent_disconnected': return orange("Opponent disconnected, waiting for them to reconnect...");
+        case 'share_game_id': return `Game ID: ${bold(gameId ?? '')}\nSend this ID to your opponent!\nWaiting for them to join...`;
+        case 'your_turn': {
+            const turn = `Your turn (${paint(status.color, colorName(status.color))})`;
+            return status.reselect ? `${turn}: ${orange("Select a NEW Sabotage Space")}` : turn;
+        }
+        case 'waiting_for': return `Waiting for ${paint(status.color, colorName(status.color))}`;
+        case 'won': return green(status.text);
+        case 'drawn': return bold(status.text);
+    }
+};
+
+// Offers and requests waiting on the viewer, like the notes under the web client's controls
+const describeOffers = (view: PlayerGameView): string[] => {
+    const me = view.viewerColor;
+    if (!me || view.gamePhase === 'game_over') return [];
+    const notes: string[] = [];
+    const opponent = getOpponent(me);
+    if (view.drawOfferedBy === opponent) notes.push("Your opponent offers a draw: type `draw` to accept.");
+    if (view.takebackRequestedBy === opponent) notes.push("Your opponent asks to take back their move: type `takeback` to accept.");
+    return notes;
+};
+
+// The running score of a best-of-N match, as in the web client's game info
+const describeSeries = (view: PlayerGameView): string[] => {
+    const { series } = view;
+    if (!series) return [];
+    const name = (color: PlayerColor) => view.identities[color]?.nickname ?? colorName(color);
+    const score = `${describeSeriesGame(series, view.gamePhase === 'game_over')}: ${red(`${name('red')} ${series.wins.red}`)} - ${yellow(`${series.wins.yellow} ${name('yellow')}`)}`;
+    return [series.winner ? `${score}. ${name(series.winner)} wins the match!` : score];
+};
+
+// How sabotage played out, once the whole history is known
+const describeSabotage = (view: PlayerGameView): string[] => {
+    if (!view.history) return [];
+    const { timeline } = summarizeGame(view.history, view.board, view.config);
+    return timeline.map(entry => {
+        const who = paint(entry.player, colorName(entry.player));
+        const cell = formatCell(view.config, entry.row, entry.col);
+        switch (entry.type) {
+            case 'flipped': return `  Move ${entry.move}: ${who} dropped on ${colorName(entry.spotOwner)}'s Sabotage Space at ${cell}; the piece turned ${colorName(entry.spotOwner)}.`;
+            case 'own_trigger': return `  Move ${entry.move}: ${who} dropped on their own Sabotage Space at ${cell}.`;
+            case 'overlap': return `  Move ${entry.move}: ${who} found both Sabotage Spaces at ${cell}.`;
+            case 'reselect': return `  Move ${entry.move}: ${who} picked a new Sabotage Space at ${cell}.`;
+        }
+    });
+};
+
+// --- Client ---
+const main = () => {
+    const urlFlag = process.argv.indexOf('--url');
+    const url = urlFlag >= 0 ? process.argv[urlFlag + 1] : (process.env.SOCKET_URL || 'http://localhost:3001');
+
+    const socket: GameSocket = io(url);
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' });
+
+    let gameId: string | null = null;
+    let sessionToken: string | null = null; // To take the seat back after a dropped connection
+    let isSpectating = false;
+    let view: PlayerGameView | null = null;
+
+    // Prints above the prompt without mangling what's been typed so far
+    const say = (text: string) => {
+        readline.clearLine(process.stdout, 0);
+        readline.cursorTo(process.stdout, 0);
+        console.log(text);
+        rl.prompt(true);
+    };
+
+    const redraw = () => {
+        if (!view) return;
+        if (process.stdout.isTTY) console.clear();
+        const lines = [renderBoard(view), '', renderStatus(view, gameId, isSpectating), ...describeSeries(view), ...describeOffers(view)];
+        if (view.gamePhase === 'game_over') {
+            const sabotage = describeSabotage(view);
+            if (sabotage.length) lines.push('', bold('How sabotage played out:'), ...sabotage);
+            if (!isSpectating) lines.push('', "Type `rematch` to play again or `leave` to go back.");
+        }
+        say(lines.join('\n'));
+    };
+
+    const resetGame = () => {
+        gameId = null;
+        sessionToken = null;
+        isSpectating = false;
+        view = null;
+    };
+
+    // --- Server Events ---
+    socket.on('connect', () => {
+        if (gameId && sessionToken) {
+            socket.emit('rejoin_game', { gameId, sessionToken });
+            say("Reconnected, rejoining your game...");
+        } else {
+            say(`Connected to ${url}. Type \`help\` for commands.`);
+        }
+    });
+    socket.on('disconnect', (reason) => {
+        if (reason === 'io client disconnect') return; // We're quitting
+        if (reason === 'io server disconnect') say(red("The server closed the connection."));
+        else say(orange("Connection lost. Reconnecting..."));
+    });
+    socket.on('connect_error', (err) => say(`Failed to connect to ${url}: ${err.message}`));
+
+    const onSeat = (seat: { gameId: string, playerColor: PlayerColor, sessionToken: string }) => {
+        gameId = seat.gameId;
+        sessionToken = seat.sessionToken;
+        isSpectating = false;
+        say(`You are ${paint(seat.playerColor, colorName(seat.playerColor))} in game ${bold(seat.gameId)}.`);
+    };
+    socket.on('game_created', onSeat);
+    socket.on('game_joined', onSeat);
+    socket.on('match_found', onSeat);
+    socket.on('game_rejoined', ({ gameId: rejoinedGameId }) => say(`Rejoined game ${rejoinedGameId}.`));
+    socket.on('spectate_joined', ({ gameId: watchedGameId }) => {
+        gameId = watchedGameId;
+        isSpectating = true;
+        say(`Watching game ${watchedGameId}.`);
+    });
+
+    socket.on('game_update', (update) => {
+        view = update;
+        redraw();
+    });
+
+    socket.on('opponent_left', () => {
+        resetGame();
+        say("Your opponent has left the game.");
+    });
+    socket.on('game_closed', ({ reason }) => {
+        resetGame();
+        say(reason === 'player_left' ? "A player left, so this game has ended." : `The game was closed (${reason}).`);
+    });
+
+    const errorEvents: ErrorEvent[] = ['game_error', 'join_error', 'rejoin_error', 'chat_error'];
+    for (const event of errorEvents) {
+        socket.on(event, ({ message }: ProtocolError) => {
+            if (event === 'rejoin_error') resetGame();
+            say(red(message));
+        });
+    }
+
+    // --- Commands ---
+    const inGame = (): string | null => {
+        if (!gameId) say("You're not in a game. Type `create` or `join <id>`.");
+        return gameId;
+    };
+
+    // The server lets a connection sit in several games, but this client only shows one, so
+    // starting or joining another game leaves the current one first
+    const leaveCurrentGame = () => {
+        if (!gameId) return;
+        socket.emit('leave_game', { gameId });
+        say(`Left game ${gameId}.`);
+        resetGame();
+    };
+
+    const play = (input: string) => {
+        const id = inGame();
+        const me = view?.viewerColor;
+        if (!id || !view || !me) {
+            if (id) say("Spectators can't play.");
+            return;
+        }
+        const cell = parseCell(view.config, input);
+        if (cell) {
+            if (!canSelectSabotage(view.gamePhase, view.currentPlayer, me, view.myPendingReselect)) {
+                say("It's not your turn to pick a Sabotage Space.");
+                return;
+            }
+            socket.emit('select_sabotage', { gameId: id, ...cell });
+            return;
+        }
+        const column = Number(input);
+        if (Number.isInteger(column) && column >= 1 && column <= view.config.cols) {
+            socket.emit('make_move', { gameId: id, col: column - 1 });
+            return;
+        }
+        say(`Unknown command "${input}". Type \`help\` for commands.`);
+    };
+
+    rl.on('line', (line) => {
+        const [command, argument] = line.trim().toLowerCase().split(/\s+/);
+        switch (command) {
+            case '':
+                break;
+            case 'help':
+                say(HELP);
+                break;
+            case 'quit':
+            case 'exit':
+                rl.close();
+                return;
+            case 'create': {
+                const bestOf = argument ? Number(argument) : undefined;
+                if (bestOf !== undefined && !SERIES_LENGTHS.includes(bestOf)) {
+                    say(`Matches are best of ${SERIES_LENGTHS.join(', ')} games.`);
+                    break;
+                }
+                leaveCurrentGame();
+                socket.emit('create_game', { bestOf });
+                break;
+            }
+            case 'computer': {
+                const difficulty = (argument || 'medium') as AiDifficulty;
+                if (!AI_DIFFICULTIES.includes(difficulty)) {
+                    say(`Pick one of: ${AI_DIFFICULTIES.join(', ')}.`);
+                    break;
+                }
+                leaveCurrentGame();
+                socket.emit('create_game', { vsComputer: { difficulty, humanColor: 'red' } });
+                break;
+            }
+            case 'join':
+            case 'watch':
+                if (!argument) {
+                    say(`Usage: ${command} <game id>`);
+                    break;
+                }
+                leaveCurrentGame();
+                socket.emit(command === 'join' ? 'join_game' : 'spectate_game', argument);
+                break;
+            case 'resign':
+            case 'rematch':
+            case 'takeback':
+            case 'draw': {
+                const id = inGame();
+                if (!id) break;
+                const opponent = view?.viewerColor && getOpponent(view.viewerColor);
+                if (command === 'resign') socket.emit('resign', { gameId: id });
+                else if (command === 'rematch') socket.emit('request_rematch', { gameId: id });
+                else if (command === 'draw') socket.emit(view?.drawOfferedBy === opponent ? 'accept_draw' : 'offer_draw', { gameId: id });
+                else socket.emit(view?.takebackRequestedBy === opponent ? 'accept_takeback' : 'request_takeback', { gameId: id });
+                break;
+            }
+            case 'leave': {
+                if (inGame()) leaveCurrentGame();
+                break;
+            }
+            default:
+                play(command);
+        }
+        rl.prompt();
+    });
+
+    rl.on('close', () => {
+        socket.disconnect();
+        process.exit(0);
+    });
+
+    rl.prompt();
+};
+
+main();
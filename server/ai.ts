@@ -0,0 +1,264 @@
+import { AiDifficulty, BoardConfig, Cell, GameAction, PlayerColor, RulesState, SabotageSpot } from '../src/types';
+import { applyAction, canSelectSabotage, findLandingRow, getOpponent, getSabotage, hasSpotAt } from '../src/lib/rules';
+
+// --- Computer Opponent ---
+// The AI only ever sees what a human in its seat would: its own Sabotage Spaces, never the
+// opponent's. Drops are chosen by alpha-beta search averaged over sampled guesses of where
+// the opponent's hidden spots might be (determinization); its own spots are placed where the
+// opponent is likely to want to play soon.
+
+// The search runs on the server's only thread, so every other game waits while it thinks.
+// Drops are searched one ply deeper at a time, up to `depth`, and a depth that doesn't finish
+// within `budgetMs` is abandoned for the last one that did. Hard mode usually reaches full
+// depth on the classic board and settles for less on the biggest ones.
+interface SearchSettings {
+    depth: number; // Plies searched after the candidate drop (0 = play randomly)
+    samples: number; // Guesses of the opponent's hidden spots to average over
+    budgetMs: number; // Thinking time per drop, across all depths and samples
+}
+
+const SETTINGS: { [difficulty in AiDifficulty]: SearchSettings } = {
+    easy: { depth: 0, samples: 0, budgetMs: 0 },
+    medium: { depth: 2, samples: 3, budgetMs: 100 },
+    hard: { depth: 4, samples: 6, budgetMs: 300 },
+};
+
+const WIN_SCORE = 1000000;
+
+// Every winning line of cells on a board, built once per board configuration
+const windowCache = new Map<string, Cell[][]>();
+
+const getWindows = ({ rows, cols, connect }: BoardConfig): Cell[][] => {
+    const key = `${cols}x${rows}/${connect}`;
+    const cached = windowCache.get(key);
+    if (cached) return cached;
+
+    const windows: Cell[][] = [];
+    const directions = [[0, 1], [1, 0], [1, 1], [-1, 1]];
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            for (const [dr, dc] of directions) {
+                const cells = Array.from({ length: connect }, (_, i) => ({ row: row + dr * i, col: col + dc * i }));
+                if (cells.every(c => c.row >= 0 && c.row < rows && c.col >= 0 && c.col < cols)) {
+                    windows.push(cells);
+                }
+            }
+        }
+    }
+    windowCache.set(key, windows);
+    return windows;
+};
+
+const randomItem = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const legalColumns = (state: RulesState): number[] => {
+    const columns: number[] = [];
+    for (let col = 0; col < state.config.cols; col++) {
+        if (findLandingRow(state.board, col) >= 0) columns.push(col);
+    }
+    // Centre columns first: better alpha-beta pruning and a sensible tie-break
+    const centre = (state.config.cols - 1) / 2;
+    return columns.sort((a, b) => Math.abs(a - centre) - Math.abs(b - centre));
+};
+
+const emptyCells = (state: RulesState): Cell[] => {
+    const cells: Cell[] = [];
+    state.board.forEach((row, r) => row.forEach((cell, c) => {
+        if (cell === null) cells.push({ row: r, col: c });
+    }));
+    return cells;
+};
+
+// `count` different cells picked at random
+const randomSample = <T>(items: T[], count: number): T[] => {
+    const pool = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && pool.length) {
+        picked.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0]);
+    }
+    return picked;
+};
+
+const withSabotage = <S extends RulesState>(state: S, player: PlayerColor, spots: SabotageSpot[]): S => {
+    return player === 'red' ? { ...state, redSabotage: spots } : { ...state, yellowSabotage: spots };
+};
+
+const needsSelection = (state: RulesState, player: PlayerColor): boolean => {
+    return canSelectSabotage(state.gamePhase, state.currentPlayer, player, state.pendingReselect[player]);
+};
+
+// A spot that can't matter: an occupied cell can never be triggered again. When the rules
+// only allow empty cells, fall back to any cell we don't hold yet.
+const standInSpot = (state: RulesState, player: PlayerColor): Cell => {
+    const own = getSabotage(state, player);
+    const free: Cell[] = [];
+    for (let row = state.config.rows - 1; row >= 0; row--) {
+        for (let col = 0; col < state.config.cols; col++) {
+            if (hasSpotAt(own, row, col)) continue;
+            if (state.board[row][col] !== null && !state.rules.emptyCellsOnly) return { row, col };
+            free.push({ row, col });
+        }
+    }
+    return free.find(cell => state.board[cell.row][cell.col] === null) ?? free[0];
+};
+
+// Inside the search, any reselect is resolved with a throwaway spot so the line can continue
+const resolveSelections = (state: RulesState): RulesState => {
+    let current = state;
+    const maxSelections = 2 * state.rules.spotsPerPlayer + 1;
+    for (let guard = 0; guard < maxSelections && current.currentPlayer && needsSelection(current, current.currentPlayer); guard++) {
+        const spot = standInSpot(current, current.currentPlayer);
+        const result = applyAction(current, { type: 'select_sabotage', player: current.currentPlayer, ...spot });
+        if ('error' in result) break;
+        current = result.state;
+    }
+    return current;
+};
+
+// Static evaluation from `me`'s point of view: open winning lines, weighted by how full they are
+const evaluate = (state: RulesState, me: PlayerColor): number => {
+    const them = getOpponent(me);
+    let score = 0;
+    for (const window of getWindows(state.config)) {
+        let mine = 0;
+        let theirs = 0;
+        for (const { row, col } of window) {
+            const cell = state.board[row][col];
+            if (cell === me) mine++;
+            else if (cell === them) theirs++;
+        }
+        if (mine && !theirs) score += mine * mine;
+        else if (theirs && !mine) score -= theirs * theirs;
+    }
+    return score;
+};
+
+// When the search for the current drop has to stop; `expired` is set once it has
+interface Budget {
+    deadline: number;
+    expired: boolean;
+}
+
+const search = (state: RulesState, me: PlayerColor, depth: number, alpha: number, beta: number, budget: Budget): number => {
+    if (budget.expired || Date.now() > budget.deadline) {
+        budget.expired = true;
+        return 0; // The whole depth is thrown away, so the value doesn't matter
+    }
+    const current = resolveSelections(state);
+    if (current.gamePhase === 'game_over') {
+        if (!current.winner) return 0;
+        // Prefer quicker wins and slower losses
+        return current.winner === me ? WIN_SCORE + depth : -WIN_SCORE - depth;
+    }
+    if (depth === 0 || !current.currentPlayer) return evaluate(current, me);
+
+    const player = current.currentPlayer;
+    const maximizing = player === me;
+    let best = maximizing ? -Infinity : Infinity;
+    for (const col of legalColumns(current)) {
+        const result = applyAction(current, { type: 'make_move', player, col });
+        if ('error' in result) continue;
+        const value = search(result.state, me, depth - 1, alpha, beta, budget);
+        if (maximizing) {
+            best = Math.max(best, value);
+            alpha = Math.max(alpha, value);
+        } else {
+            best = Math.min(best, value);
+            beta = Math.min(beta, value);
+        }
+        if (beta <= alpha) break;
+    }
+    return best === Infinity || best === -Infinity ? evaluate(current, me) : best;
+};
+
+// Possible worlds for the opponent's hidden spots. The real spots (and even how many are
+// left) are never looked at: every guess assumes a full set.
+const sampleBeliefs = (state: RulesState, me: PlayerColor, samples: number): RulesState[] => {
+    const them = getOpponent(me);
+    const hidden = withSabotage(state, them, []);
+    const candidates = emptyCells(state);
+    if (!candidates.length) return [hidden];
+    return Array.from({ length: samples }, () => withSabotage(hidden, them, randomSample(candidates, state.rules.spotsPerPlayer)));
+};
+
+const chooseColumn = (state: RulesState, me: PlayerColor, settings: SearchSettings): number => {
+    const columns = legalColumns(state);
+    if (settings.depth === 0) return randomItem(columns);
+
+    const beliefs = sampleBeliefs(state, me, settings.samples);
+    const budget: Budget = { deadline: Date.now() + settings.budgetMs, expired: false };
+    // Best columns of the deepest search that finished within the budget
+    let chosen: number[] = [];
+    for (let depth = 0; depth <= settings.depth; depth++) {
+        let bestScore = -Infinity;
+        let bestColumns: number[] = [];
+        for (const col of columns) {
+            let total = 0;
+            for (const belief of beliefs) {
+                const result = applyAction(belief, { type: 'make_move', player: me, col });
+                total += 'error' in result ? -WIN_SCORE : search(result.state, me, depth, -Infinity, Infinity, budget);
+            }
+            const score = total / beliefs.length;
+            if (score > bestScore) {
+                bestScore = score;
+                bestColumns = [col];
+            } else if (score === bestScore) {
+                bestColumns.push(col);
+            }
+        }
+        if (budget.expired) break;
+        chosen = bestColumns;
+    }
+    return chosen[0] ?? randomItem(columns);
+};
+
+// A good Sabotage Space is an empty cell the opponent wants and can reach soon: if they
+// drop there, the piece turns into ours.
+const chooseSabotageSpot = (state: RulesState, me: PlayerColor, settings: SearchSettings): Cell => {
+    const own = getSabotage(state, me);
+    const cells = emptyCells(state).filter(cell => !hasSpotAt(own, cell.row, cell.col));
+    if (!cells.length) return standInSpot(state, me); // Full board; any cell is as useless as another
+    if (settings.depth === 0) return randomItem(cells);
+
+    const them = getOpponent(me);
+    let bestScore = -Infinity;
+    const windows = getWindows(state.config);
+    let bestCells: Cell[] = [];
+    for (const cell of cells) {
+        let score = 0;
+        for (const window of windows) {
+            if (!window.some(c => c.row === cell.row && c.col === cell.col)) continue;
+            let theirs = 0;
+            let mine = 0;
+            for (const { row, col } of window) {
+                if (state.board[row][col] === them) theirs++;
+                else if (state.board[row][col] === me) mine++;
+            }
+            if (!mine) score += (theirs + 1) * (theirs + 1);
+        }
+        // Cells that are playable now or next are the ones that actually get triggered
+        const height = findLandingRow(state.board, cell.col) - cell.row;
+        if (height === 0) score *= 2;
+        else if (height > 1) score /= height;
+
+        if (score > bestScore) {
+            bestScore = score;
+            bestCells = [cell];
+        } else if (score === bestScore) {
+            bestCells.push(cell);
+        }
+    }
+    return randomItem(bestCells);
+};
+
+// The next action for the computer in seat `me`, or null if it isn't the computer's turn
+export const chooseAiAction = (state: RulesState, me: PlayerColor, difficulty: AiDifficulty): GameAction | null => {
+    if (state.currentPlayer !== me) return null;
+    const settings = SETTINGS[difficulty];
+
+    if (needsSelection(state, me)) {
+        return { type: 'select_sabotage', player: me, ...chooseSabotageSpot(state, me, settings) };
+    }
+    if (state.gamePhase !== 'playing') return null;
+    return { type: 'make_move', player: me, col: chooseColumn(state, me, settings) };
+};
@@ -0,0 +1,60 @@
+import { CHAT_MAX_LENGTH } from '../src/lib/chat';
+
+// --- Chat Filtering ---
+// Deliberately basic: a short word list masked with asterisks, and a per-socket flood limit.
+
+// Whole words only, so names like "Dickens" or "Scunthorpe" get through; common forms are listed
+const BLOCKED_WORDS = [
+    'fuck', 'fucks', 'fucked', 'fucker', 'fuckers', 'fucking', 'motherfucker',
+    'shit', 'shits', 'shitty', 'bullshit',
+    'bitch', 'bitches', 'bitchy',
+    'asshole', 'assholes',
+    'bastard', 'bastards',
+    'dick', 'dicks', 'dickhead',
+    'cunt', 'cunts',
+    'whore', 'whores',
+    'slut', 'sluts', 'slutty',
+    'retard', 'retards', 'retarded',
+];
+const BLOCKED_PATTERN = new RegExp(`\\b(${BLOCKED_WORDS.join('|')})\\b`, 'gi');
+
+// At most FLOOD_MAX_MESSAGES per FLOOD_WINDOW_MS from one socket
+const FLOOD_MAX_MESSAGES = 5;
+const FLOOD_WINDOW_MS = 10000;
+
+// Tidies and checks a chat message. Returns the text to post, or an error for the sender.
+export const cleanChatText = (raw: unknown): { text: string } | { error: string } => {
+    if (typeof raw !== 'string') return { error: "Invalid message." };
+    const text = raw.replace(/\s+/g, ' ').trim();
+    if (!text) return { error: "Message is empty." };
+    if (text.length > CHAT_MAX_LENGTH) return { error: `Messages can be at most ${CHAT_MAX_LENGTH} characters.` };
+    return { text: text.replace(BLOCKED_PATTERN, word => '*'.repeat(word.length)) };
+};
+
+export interface FloodGuard {
+    // Records a message from the socket; false if it's over the limit (or repeats its last message)
+    allow(socketId: string, text: string, now: number): boolean;
+    forget(socketId: string): void;
+}
+
+export const createFloodGuard = (): FloodGuard => {
+    const recent: { [socketId: string]: { times: number[], lastText: string } } = {};
+
+    return {
+        allow: (socketId, text, now) => {
+            const entry = recent[socketId] ?? { times: [], lastText: '' };
+            entry.times = entry.times.filter(t => now - t < FLOOD_WINDOW_MS);
+            if (entry.times.length >= FLOOD_MAX_MESSAGES || (text === entry.lastText && entry.times.length > 0)) {
+                recent[socketId] = entry;
+                return false;
+            }
+            entry.times.push(now);
+            entry.lastText = text;
+            recent[socketId] = entry;
+            return true;
+        },
+        forget: (socketId) => {
+            delete recent[socketId];
+        },
+    };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, PlayerColor } from '../src/types';
+import { createGameState } from '../src/lib/gameState';
+import { createMemoryGameStore, findSeats } from './gameStore';
+
+// A game with the given sockets in its seats
+const seatedGame = (seats: { [color in PlayerColor]?: string }): GameState => {
+    const game = createGameState();
+    for (const color of ['red', 'yellow'] as const) {
+        const socketId = seats[color];
+        if (!socketId) continue;
+        game.playerSockets[color] = socketId;
+        game.players[socketId] = color;
+    }
+    return game;
+};
+
+describe('findSeats', () => {
+    it('finds every game a connection sits in', () => {
+        const store = createMemoryGameStore();
+        store.put('g1', seatedGame({ red: 'alice' }));
+        store.put('g2', seatedGame({ red: 'bob', yellow: 'alice' }));
+        store.put('g3', seatedGame({ red: 'alice', yellow: 'carol' }));
+        store.put('g4', seatedGame({ red: 'bob' }));
+
+        expect(findSeats(store, 'alice')).toEqual([
+            { gameId: 'g1', color: 'red' },
+            { gameId: 'g2', color: 'yellow' },
+            { gameId: 'g3', color: 'red' },
+        ]);
+        expect(findSeats(store, 'bob')).toEqual([
+            { gameId: 'g2', color: 'red' },
+            { gameId: 'g4', color: 'red' },
+        ]);
+    });
+
+    it('finds nothing for a connection without a seat', () => {
+        const store = createMemoryGameStore();
+        store.put('g1', seatedGame({ red: 'alice' }));
+        expect(findSeats(store, 'dave')).toEqual([]);
+    });
+});
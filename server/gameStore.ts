@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+
+import { GameState, PlayerColor } from '../src/types';
+
+// --- Game Store ---
+// Where the server keeps its games. Handlers always `put` after changing a game so that
+// persistent stores stay in sync with what the players see.
+export interface GameStore {
+    get(gameId: string): GameState | undefined;
+    put(gameId: string, game: GameState): void;
+    delete(gameId: string): void;
+    list(): { gameId: string, game: GameState }[];
+}
+
+// Games only live as long as the process (the original behaviour)
+export const createMemoryGameStore = (): GameStore => {
+    const games: { [gameId: string]: GameState } = {};
+
+    return {
+        get: (gameId) => games[gameId],
+        put: (gameId, game) => {
+            games[gameId] = game;
+        },
+        delete: (gameId) => {
+            delete games[gameId];
+        },
+        list: () => Object.keys(games).map(gameId => ({ gameId, game: games[gameId] })),
+    };
+};
+
+// Saved games carry the version of the GameState shape they were written with. Bump it when
+// that shape changes: files from another version are dropped on startup instead of migrated.
+const GAME_FILE_VERSION = 1;
+
+interface GameFile {
+    version: number;
+    game: GameState;
+}
+
+// One JSON file per game in `dir`. Reads are served from memory; every put/delete is written
+// through to disk so games survive a restart or deploy.
+export const createFileGameStore = (dir: string): GameStore => {
+    const memory = createMemoryGameStore();
+    const fileFor = (gameId: string) => path.join(dir, `${gameId}.json`);
+
+    fs.mkdirSync(dir, { recursive: true });
+    for (const fileName of fs.readdirSync(dir)) {
+        if (!fileName.endsWith('.json')) continue;
+        const gameId = path.basename(fileName, '.json');
+        try {
+            const saved = JSON.parse(fs.readFileSync(path.join(dir, fileName), 'utf8')) as GameFile;
+            if (saved.version === GAME_FILE_VERSION) {
+                memory.put(gameId, saved.game);
+            } else {
+                console.warn(`Dropping game file ${fileName}: saved with version ${saved.version ?? 'none'}, expected ${GAME_FILE_VERSION}.`);
+                fs.rmSync(path.join(dir, fileName), { force: true });
+            }
+        } catch (err) {
+            console.error(`Skipping unreadable game file ${fileName}:`, err);
+        }
+    }
+
+    return {
+        get: memory.get,
+        list: memory.list,
+        put: (gameId, game) => {
+            memory.put(gameId, game);
+            // Write to a temp file first so a crash mid-write can't leave a truncated game
+            const tmpFile = `${fileFor(gameId)}.tmp`;
+            const saved: GameFile = { version: GAME_FILE_VERSION, game };
+            fs.writeFileSync(tmpFile, JSON.stringify(saved));
+            fs.renameSync(tmpFile, fileFor(gameId));
+        },
+        delete: (gameId) => {
+            if (!memory.get(gameId)) return;
+            memory.delete(gameId);
+            fs.rmSync(fileFor(gameId), { force: true });
+        },
+    };
+};
+
+// Picks the store from the environment: GAME_STORE=file (with optional GAME_STORE_DIR) or memory
+export const createGameStore = (): GameStore => {
+    const kind = process.env.GAME_STORE || 'memory';
+    if (kind === 'file') {
+        const dir = path.resolve(process.env.GAME_STORE_DIR || '.data/games');
+        console.log(`Using file game store at ${dir}`);
+        return createFileGameStore(dir);
+    }
+    if (kind !== 'memory') {
+        console.warn(`Unknown GAME_STORE "${kind}", falling back to memory.`);
+    }
+    return createMemoryGameStore();
+};
+
+// Every seat a socket holds. One connection can sit in several games at once (up to
+// MAX_GAMES_PER_CONNECTION), so leaving and disconnecting have to look at all of them.
+export const findSeats = (store: GameStore, socketId: string): { gameId: string, color: PlayerColor }[] => {
+    const seats: { gameId: string, color: PlayerColor }[] = [];
+    for (const { gameId, game } of store.list()) {
+        for (const color of ['red', 'yellow'] as const) {
+            if (game.playerSockets[color] === socketId) seats.push({ gameId, color });
+        }
+    }
+    return seats;
+};
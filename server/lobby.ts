@@ -0,0 +1,69 @@
+import { BoardConfig, LobbyGame, SabotageRules, TimeControl } from '../src/types';
+import { GameStore } from './gameStore';
+
+// --- Lobby ---
+// Open games are the ones still waiting for a second player whose creator is connected.
+// Tournament games wait for their own players and aren't listed.
+export const listOpenGames = (store: GameStore): LobbyGame[] => {
+    return store.list()
+        .filter(({ game }) => game.gamePhase === 'waiting_for_opponent' && !game.disconnected.red && !game.tournament)
+        .map(({ gameId, game }) => ({
+            gameId,
+            config: game.config,
+            timeControl: game.clock?.control ?? null,
+            rules: game.rules,
+            bestOf: game.series?.bestOf ?? null,
+            createdAt: game.createdAt,
+        }))
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// --- Quick Match Queue ---
+// Sockets waiting to be paired. Two entries only match if they asked for the same board, time
+// control and rule variant; the longest-waiting compatible player is matched first.
+export interface QueueEntry {
+    socketId: string;
+    config: BoardConfig;
+    timeControl: TimeControl | null;
+    rules: SabotageRules;
+}
+
+export interface MatchQueue {
+    // Adds the entry, or returns the queued opponent it was paired with (who leaves the queue)
+    join(entry: QueueEntry): QueueEntry | null;
+    leave(socketId: string): boolean;
+    size(): number;
+}
+
+const settingsKey = ({ config, timeControl, rules }: QueueEntry): string => {
+    const board = `${config.cols}x${config.rows}/${config.connect}`;
+    const variant = `${rules.spotsPerPlayer}${rules.emptyCellsOnly ? 'e' : ''}/${rules.ownTrigger}/${rules.overlap}${rules.revealTriggered ? '/reveal' : ''}`;
+    if (!timeControl) return `${board} ${variant}`;
+    return timeControl.kind === 'per_move'
+        ? `${board} ${variant} per_move ${timeControl.seconds}`
+        : `${board} ${variant} total ${timeControl.seconds}+${timeControl.incrementSeconds}`;
+};
+
+export const createMatchQueue = (): MatchQueue => {
+    let queue: QueueEntry[] = [];
+
+    return {
+        join: (entry) => {
+            queue = queue.filter(e => e.socketId !== entry.socketId); // Re-queueing replaces the old request
+            const key = settingsKey(entry);
+            const opponent = queue.find(e => settingsKey(e) === key);
+            if (opponent) {
+                queue = queue.filter(e => e !== opponent);
+                return opponent;
+            }
+            queue.push(entry);
+            return null;
+        },
+        leave: (socketId) => {
+            const before = queue.length;
+            queue = queue.filter(e => e.socketId !== socketId);
+            return queue.length !== before;
+        },
+        size: () => queue.length,
+    };
+};
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+
+// --- Player Store ---
+// Registered players and their ratings. Unlike games, players are meant to stick around, so
+// the file store is the default.
+
+export interface PlayerRecord {
+    playerId: string;
+    nickname: string;
+    tokenHash: string; // sha256 of the secret token; the token itself is never stored
+    rating: number;
+    gamesPlayed: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    createdAt: number;
+}
+
+export interface PlayerStore {
+    get(playerId: string): PlayerRecord | undefined;
+    findByNickname(nickname: string): PlayerRecord | undefined; // Case-insensitive
+    put(player: PlayerRecord): void;
+    list(): PlayerRecord[];
+}
+
+export const createMemoryPlayerStore = (): PlayerStore => {
+    const players: { [playerId: string]: PlayerRecord } = {};
+
+    return {
+        get: (playerId) => players[playerId],
+        findByNickname: (nickname) => {
+            const wanted = nickname.toLowerCase();
+            return Object.values(players).find(p => p.nickname.toLowerCase() === wanted);
+        },
+        put: (player) => {
+            players[player.playerId] = player;
+        },
+        list: () => Object.values(players),
+    };
+};
+
+// All players in one JSON file, rewritten on every change. Fine for a hobby server's numbers.
+export const createFilePlayerStore = (file: string): PlayerStore => {
+    const memory = createMemoryPlayerStore();
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (fs.existsSync(file)) {
+        try {
+            const saved = JSON.parse(fs.readFileSync(file, 'utf8')) as PlayerRecord[];
+            saved.forEach(memory.put);
+        } catch (err) {
+            console.error(`Could not read player file ${file}, starting empty:`, err);
+        }
+    }
+
+    return {
+        get: memory.get,
+        findByNickname: memory.findByNickname,
+        list: memory.list,
+        put: (player) => {
+            memory.put(player);
+            const tmpFile = `${file}.tmp`;
+            fs.writeFileSync(tmpFile, JSON.stringify(memory.list()));
+            fs.renameSync(tmpFile, file);
+        },
+    };
+};
+
+// Picks the store from the environment: PLAYER_STORE=file (default, PLAYER_STORE_FILE) or memory
+export const createPlayerStore = (): PlayerStore => {
+    const kind = process.env.PLAYER_STORE || 'file';
+    if (kind === 'file') {
+        const file = path.resolve(process.env.PLAYER_STORE_FILE || '.data/players.json');
+        console.log(`Using file player store at ${file}`);
+        return createFilePlayerStore(file);
+    }
+    if (kind !== 'memory') {
+        console.warn(`Unknown PLAYER_STORE "${kind}", falling back to memory.`);
+    }
+    return createMemoryPlayerStore();
+};
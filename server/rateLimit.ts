@@ -0,0 +1,139 @@
+import { ClientEvent } from '../src/lib/protocol';
+
+// --- Rate Limits ---
+// Client events are grouped into a few classes, each limited per socket and per IP address
+// (several tabs or bots behind one address share the IP budget). Chat additionally has its
+// own flood guard in chat.ts.
+
+export interface RateLimit {
+    max: number; // Requests allowed...
+    windowMs: number; // ...within this sliding window
+}
+
+export type EventClass = 'create' | 'join' | 'action' | 'account' | 'other';
+
+export const EVENT_CLASSES: { [E in ClientEvent]: EventClass } = {
+    create_game: 'create',
+    quick_match: 'create',
+    join_game: 'join', // Also what someone guessing game ids would hammer
+    spectate_game: 'join',
+    rejoin_game: 'join',
+    select_sabotage: 'action',
+    make_move: 'action',
+    resign: 'action',
+    offer_draw: 'action',
+    accept_draw: 'action',
+    request_takeback: 'action',
+    accept_takeback: 'action',
+    request_rematch: 'action',
+    register_player: 'account',
+    identify_player: 'account',
+    leave_game: 'other',
+    lobby_subscribe: 'other',
+    lobby_unsubscribe: 'other',
+    cancel_quick_match: 'other',
+    send_chat: 'other',
+    send_reaction: 'other',
+    create_tournament: 'create',
+    register_for_tournament: 'join',
+    withdraw_from_tournament: 'join',
+    claim_tournament_seat: 'join',
+    start_tournament: 'action',
+    tournament_subscribe: 'other',
+    tournament_unsubscribe: 'other',
+};
+
+export interface RateLimitConfig {
+    perSocket: { [C in EventClass]: RateLimit };
+    perIp: { [C in EventClass]: RateLimit };
+    strikes: RateLimit; // Rate-limited or malformed requests a socket may send before it's disconnected
+    maxGamesPerConnection: number; // Games one socket may be seated in at once
+    maxGames: number; // Games the server holds in total
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+    perSocket: {
+        create: { max: 5, windowMs: 60000 },
+        join: { max: 10, windowMs: 60000 },
+        action: { max: 20, windowMs: 10000 },
+        account: { max: 5, windowMs: 60000 },
+        other: { max: 30, windowMs: 10000 },
+    },
+    perIp: {
+        create: { max: 20, windowMs: 60000 },
+        join: { max: 30, windowMs: 60000 },
+        action: { max: 100, windowMs: 10000 },
+        account: { max: 10, windowMs: 60000 },
+        other: { max: 100, windowMs: 10000 },
+    },
+    strikes: { max: 10, windowMs: 60000 },
+    maxGamesPerConnection: 3,
+    maxGames: 1000,
+};
+
+// Reads a limit written as "max/seconds", e.g. RATE_LIMIT_JOIN=10/60
+const parseLimit = (name: string, fallback: RateLimit): RateLimit => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const match = /^(\d+)\/(\d+(?:\.\d+)?)$/.exec(value.trim());
+    if (!match || Number(match[1]) < 1 || Number(match[2]) <= 0) {
+        console.warn(`Ignoring ${name}="${value}": expected max/seconds, e.g. 10/60.`);
+        return fallback;
+    }
+    return { max: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+};
+
+// The limits, with any overrides from the environment: RATE_LIMIT_<CLASS> (per socket),
+// RATE_LIMIT_<CLASS>_IP, RATE_LIMIT_STRIKES, MAX_GAMES_PER_CONNECTION and MAX_GAMES
+export const loadRateLimitConfig = (): RateLimitConfig => {
+    const perSocket = { ...DEFAULT_CONFIG.perSocket };
+    const perIp = { ...DEFAULT_CONFIG.perIp };
+    for (const eventClass of Object.keys(perSocket) as EventClass[]) {
+        const name = `RATE_LIMIT_${eventClass.toUpperCase()}`;
+        perSocket[eventClass] = parseLimit(name, perSocket[eventClass]);
+        perIp[eventClass] = parseLimit(`${name}_IP`, perIp[eventClass]);
+    }
+    return {
+        perSocket,
+        perIp,
+        strikes: parseLimit('RATE_LIMIT_STRIKES', DEFAULT_CONFIG.strikes),
+        maxGamesPerConnection: Number(process.env.MAX_GAMES_PER_CONNECTION) || DEFAULT_CONFIG.maxGamesPerConnection,
+        maxGames: Number(process.env.MAX_GAMES) || DEFAULT_CONFIG.maxGames,
+    };
+};
+
+export interface RateLimiter {
+    // Records a request under `key`; false if that goes over `limit` (refused requests don't count)
+    allow(key: string, limit: RateLimit, now: number): boolean;
+    // Drops keys with no requests in the last `maxWindowMs`, so idle sockets and IPs don't pile up
+    prune(maxWindowMs: number, now: number): void;
+}
+
+export const createRateLimiter = (): RateLimiter => {
+    const recent: { [key: string]: number[] } = {};
+
+    return {
+        allow: (key, limit, now) => {
+            const times = (recent[key] ?? []).filter(t => now - t < limit.windowMs);
+            if (times.length >= limit.max) {
+                recent[key] = times;
+                return false;
+            }
+            times.push(now);
+            recent[key] = times;
+            return true;
+        },
+        prune: (maxWindowMs, now) => {
+            for (const key of Object.keys(recent)) {
+                const times = recent[key];
+                if (!times.length || now - times[times.length - 1] >= maxWindowMs) delete recent[key];
+            }
+        },
+    };
+};
+
+// How long a rate limiter has to remember requests for under `config`
+export const longestWindowMs = (config: RateLimitConfig): number => {
+    const limits = [...Object.values(config.perSocket), ...Object.values(config.perIp), config.strikes];
+    return Math.max(...limits.map(limit => limit.windowMs));
+};
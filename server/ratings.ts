@@ -0,0 +1,106 @@
+import { createHash, randomBytes } from 'crypto';
+
+import { LeaderboardEntry, PlayerProfile } from '../src/types';
+import { PlayerRecord, PlayerStore } from './playerStore';
+
+// --- Ratings ---
+// Plain Elo. Everyone starts at INITIAL_RATING; new players move faster until they have a
+// few games behind them.
+export const INITIAL_RATING = 1200;
+const K_FACTOR_NEW = 40;
+const K_FACTOR = 20;
+const NEW_PLAYER_GAMES = 10;
+
+const NICKNAME_PATTERN = /^[A-Za-z0-9_\- ]{2,20}$/;
+
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const toProfile = (player: PlayerRecord): PlayerProfile => ({
+    playerId: player.playerId,
+    nickname: player.nickname,
+    rating: player.rating,
+    gamesPlayed: player.gamesPlayed,
+    wins: player.wins,
+    losses: player.losses,
+    draws: player.draws,
+});
+
+// Creates a player. Returns the record and its secret token, or an error for the client.
+export const registerPlayer = (store: PlayerStore, rawNickname: unknown): { player: PlayerRecord, token: string } | { error: string } => {
+    const nickname = typeof rawNickname === 'string' ? rawNickname.trim() : '';
+    if (!NICKNAME_PATTERN.test(nickname)) {
+        return { error: "Nicknames are 2-20 letters, numbers, spaces, _ or -." };
+    }
+    if (store.findByNickname(nickname)) {
+        return { error: `The nickname "${nickname}" is taken.` };
+    }
+
+    const token = randomBytes(16).toString('hex');
+    const player: PlayerRecord = {
+        playerId: randomBytes(8).toString('hex'),
+        nickname,
+        tokenHash: hashToken(token),
+        rating: INITIAL_RATING,
+        gamesPlayed: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        createdAt: Date.now(),
+    };
+    store.put(player);
+    return { player, token };
+};
+
+// The player behind a stored id + token, if the token is right
+export const authenticatePlayer = (store: PlayerStore, playerId: unknown, token: unknown): PlayerRecord | null => {
+    if (typeof playerId !== 'string' || typeof token !== 'string') return null;
+    const player = store.get(playerId);
+    return player && player.tokenHash === hashToken(token) ? player : null;
+};
+
+const expectedScore = (rating: number, opponentRating: number): number => {
+    return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+};
+
+const applyResult = (player: PlayerRecord, opponentRating: number, score: number): PlayerRecord => {
+    const k = player.gamesPlayed < NEW_PLAYER_GAMES ? K_FACTOR_NEW : K_FACTOR;
+    return {
+        ...player,
+        rating: Math.round(player.rating + k * (score - expectedScore(player.rating, opponentRating))),
+        gamesPlayed: player.gamesPlayed + 1,
+        wins: player.wins + (score === 1 ? 1 : 0),
+        losses: player.losses + (score === 0 ? 1 : 0),
+        draws: player.draws + (score === 0.5 ? 1 : 0),
+    };
+};
+
+// Records a finished game between two registered players. `redScore` is 1 (Red won),
+// 0.5 (draw) or 0 (Yellow won). Returns the new ratings, or null if either player is unknown.
+export const recordRatedResult = (store: PlayerStore, redId: string, yellowId: string, redScore: number): { red: number, yellow: number } | null => {
+    const red = store.get(redId);
+    const yellow = store.get(yellowId);
+    if (!red || !yellow) return null;
+
+    const newRed = applyResult(red, yellow.rating, redScore);
+    const newYellow = applyResult(yellow, red.rating, 1 - redScore);
+    store.put(newRed);
+    store.put(newYellow);
+    return { red: newRed.rating, yellow: newYellow.rating };
+};
+
+// Rated players (at least one game) by rating, best first
+export const buildLeaderboard = (store: PlayerStore, limit: number): LeaderboardEntry[] => {
+    return store.list()
+        .filter(player => player.gamesPlayed > 0)
+        .sort((a, b) => b.rating - a.rating || b.gamesPlayed - a.gamesPlayed)
+        .slice(0, limit)
+        .map((player, i) => ({
+            rank: i + 1,
+            nickname: player.nickname,
+            rating: player.rating,
+            gamesPlayed: player.gamesPlayed,
+            wins: player.wins,
+            losses: player.losses,
+            draws: player.draws,
+        }));
+};
@@ -1,492 +1,917 @@
 import express from 'express';
 import http from 'http';
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Server as SocketIOServer } from 'socket.io';
 import { randomBytes } from 'crypto'; // For generating game IDs
 
-// --- Types (reuse/adapt from client if possible, or define server-specific) ---
-type Player = 'red' | 'yellow' | null;
-type Board = (Player | null)[][];
-type SabotageSpot = { row: number, col: number } | null;
-type GamePhase = 'init_select_red' | 'init_select_yellow' | 'playing' | 'sabotage_select_red' | 'sabotage_select_yellow' | 'game_over' | 'waiting_for_opponent'; // Added waiting phase
-
-interface GameState {
-    board: Board;
-    players: { [key: string]: Player }; // Map socket ID to player color
-    playerSockets: { red: string | null, yellow: string | null }; // Store socket IDs for each color
-    currentPlayer: Player;
-    winner: Player | null;
-    isDraw: boolean;
-    gamePhase: GamePhase;
-    redSabotage: SabotageSpot;
-    yellowSabotage: SabotageSpot;
-    overlapJustTriggered: Player | null;
-    sabotageTriggeredBy: Player | null; // Added: Who caused the sabotage re-selection?
-    rematchRequested: { red: boolean, yellow: boolean }; // Added: Track rematch requests
-    pendingReselect: { red: boolean, yellow: boolean }; // Added: Track pending reselects per player
-}
+import { Player, PlayerColor, BoardConfig, ChatMessage, ClientToServerEvents, ErrorCode, GameCloseReason, SeatIdentity, GameAction, GameEvent, GameState, LobbyUpdate, QuickMatchOptions, SabotageRules, ServerToClientEvents, SocketData, TimeControl, Tournament, TournamentMatch } from '../src/types';
+import { applyAction, copySabotageRules, createRulesState, DEFAULT_BOARD_CONFIG, DEFAULT_SABOTAGE_RULES, getOpponent, isActivePhase, isDefaultRules, validateBoardConfig, validateSabotageRules } from '../src/lib/rules';
+import { buildPlayerView, buildPublicView, createGameState, findTakebackIndex, rewindGame } from '../src/lib/gameState';
+import { formatGameRecord } from '../src/lib/notation';
+import { ClientEvent, ErrorEvent, errorEventFor, validateClientPayload } from '../src/lib/protocol';
+import { advanceClock, clockRunner, copyTimeControl, createClock, timeLeft, validateTimeControl } from '../src/lib/clock';
+import { createSeries, recordSeriesGame, seriesForRematch, validateSeriesLength } from '../src/lib/series';
+import { createGameStore, findSeats } from './gameStore';
+import { chooseAiAction } from './ai';
+import { createMatchQueue, listOpenGames } from './lobby';
+import { cleanChatText, createFloodGuard } from './chat';
+import { CHAT_HISTORY_LIMIT, QUICK_REACTIONS } from '../src/lib/chat';
+import { createPlayerStore } from './playerStore';
+import { authenticatePlayer, buildLeaderboard, recordRatedResult, registerPlayer, toProfile } from './ratings';
+import { createRateLimiter, EVENT_CLASSES, loadRateLimitConfig, longestWindowMs } from './rateLimit';
+import { absentSeats, findExpiredGames, loadSweeperConfig, SweepReason } from './sweeper';
+import { addEntrant, assignMatchGame, createTournament, createTournamentStore, forfeitMatch, playableMatches, recordMatchGame, removeEntrant, startTournament, toTournamentSummary, toTournamentView, validateTournamentOptions } from './tournaments';
 
 // --- Constants ---
-const ROWS = 6;
-const COLS = 7;
-
-const createEmptyBoard = (): Board => {
-    return Array(ROWS).fill(null).map(() => Array(COLS).fill(null));
-};
+// How long a dropped player's seat is held before the game is closed
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 60000;
+// Pause before the computer acts, so its moves don't appear instantly
+const COMPUTER_MOVE_DELAY_MS = Number(process.env.COMPUTER_MOVE_DELAY_MS) || 700;
+// Stands in for a socket id in `playerSockets` for the seat the computer plays
+const COMPUTER_SOCKET_ID = 'computer';
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000";
+// Leaderboard page size limits for the REST API
+const LEADERBOARD_DEFAULT_LIMIT = 50;
+const LEADERBOARD_MAX_LIMIT = 200;
+// Room of sockets that get live lobby updates
+const LOBBY_ROOM = 'lobby';
+// How often rate limiter entries for quiet sockets and IPs are dropped
+const RATE_LIMIT_PRUNE_INTERVAL_MS = 60000;
+// Pause between the games of a tournament match, so both players see the result first
+const TOURNAMENT_NEXT_GAME_DELAY_MS = Number(process.env.TOURNAMENT_NEXT_GAME_DELAY_MS) || 5000;
 
 const generateGameId = (): string => {
     return randomBytes(4).toString('hex'); // Generate an 8-character hex ID
 };
 
+const generateSessionToken = (): string => {
+    return randomBytes(16).toString('hex');
+};
+
 // --- Game Storage ---
-const games: { [gameId: string]: GameState } = {};
+const games = createGameStore();
+const players = createPlayerStore();
+const tournaments = createTournamentStore();
+// Pending seat releases for disconnected players, keyed by `${gameId}:${color}`
+const reconnectTimers: { [key: string]: NodeJS.Timeout } = {};
+// Pending flag falls for timed games, keyed by gameId
+const clockTimers: { [gameId: string]: NodeJS.Timeout } = {};
+// Sockets waiting for a quick match
+const matchQueue = createMatchQueue();
+// Per-socket chat rate limiting
+const chatFloodGuard = createFloodGuard();
+// Per-socket and per-IP limits on every client event, plus caps on the number of games
+const rateLimits = loadRateLimitConfig();
+const rateLimiter = createRateLimiter();
+setInterval(() => rateLimiter.prune(longestWindowMs(rateLimits), Date.now()), RATE_LIMIT_PRUNE_INTERVAL_MS).unref();
+// Closing abandoned games, and how many have been closed for each reason since startup
+const sweeperConfig = loadSweeperConfig();
+const sweptGames: { [R in SweepReason]: number } = { unjoined: 0, idle: 0, finished: 0 };
+
+// --- Game Logging ---
+const logEvents = (gameId: string, events: GameEvent[]) => {
+    for (const event of events) {
+        console.log(`Game ${gameId}: ${event.type}`, JSON.stringify(event));
+    }
+};
+
+// --- Server Setup ---
+const app = express();
+const server = http.createServer(app);
+const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(server, {
+    cors: {
+        // Use environment variable for client URL, fallback for Next.js local dev
+        origin: CLIENT_URL, // Allow specific origin or local Next.js dev server
+        methods: ["GET", "POST"]
+    }
+});
+
+const PORT = process.env.PORT || 3001;
+
+// --- REST API ---
+// Game inspection sits at the top level, everything the web client reads under /api
+const API_PATHS = ['/api', '/health', '/games'];
+
+app.use(API_PATHS, (req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', CLIENT_URL);
+    next();
+});
+
+app.get('/api/leaderboard', (req, res) => {
+    const requested = Number(req.query.limit) || LEADERBOARD_DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(1, Math.floor(requested)), LEADERBOARD_MAX_LIMIT);
+    res.json({ players: buildLeaderboard(players, limit) });
+});
+
+// Read-only game inspection, for monitoring and external tools. Games are shown the way a
+// spectator sees them, so no Sabotage Space leaks before game_over.
+app.get('/health', (req, res) => {
+    res.json({
+        status: 'ok',
+        uptimeSeconds: Math.floor(process.uptime()),
+        games: games.list().length,
+        connections: io.engine.clientsCount,
+        sweptGames,
+    });
+});
+
+app.get('/games', (req, res) => {
+    const listing = games.list()
+        .map(({ gameId, game }) => ({
+            gameId,
+            gamePhase: game.gamePhase,
+            createdAt: game.createdAt,
+            playerCount: [game.playerSockets.red, game.playerSockets.yellow].filter(Boolean).length,
+        }))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    res.json({ games: listing });
+});
+
+app.get('/games/:gameId', (req, res) => {
+    const game = games.get(req.params.gameId);
+    if (!game) {
+        res.status(404).json({ error: "Game not found." });
+        return;
+    }
+    res.json({ gameId: req.params.gameId, game: buildPublicView(game, countSpectators(req.params.gameId, game)) });
+});
+
+app.get('/games/:gameId/history', (req, res) => {
+    const game = games.get(req.params.gameId);
+    if (!game) {
+        res.status(404).json({ error: "Game not found." });
+        return;
+    }
+    if (game.gamePhase !== 'game_over') {
+        res.status(409).json({ error: "History is only available once the game is over." });
+        return;
+    }
+    res.json({
+        gameId: req.params.gameId,
+        config: game.config,
+        rules: game.rules,
+        history: game.history,
+        record: formatGameRecord(game.history, {}, game.config, game.rules),
+    });
+});
+
+app.get('/api/tournaments', (req, res) => {
+    const listing = tournaments.list()
+        .map(toTournamentSummary)
+        .sort((a, b) => b.createdAt - a.createdAt);
+    res.json({ tournaments: listing });
+});
+
+app.get('/api/tournaments/:tournamentId', (req, res) => {
+    const tournament = tournaments.get(req.params.tournamentId);
+    if (!tournament) {
+        res.status(404).json({ error: "Tournament not found." });
+        return;
+    }
+    res.json({ tournament: toTournamentView(tournament) });
+});
+
+app.use(API_PATHS, (req, res) => {
+    res.status(404).json({ error: `No such endpoint: ${req.method} ${req.originalUrl}` });
+});
 
-// --- Game Logic Helpers ---
-const checkWin = (board: Board, player: Player, r: number, c: number): boolean => {
-    if (!player) return false;
+// Express only treats a middleware as an error handler when it takes all four parameters.
+// A response that has already started can't become a JSON error: Express's own handler closes it.
+app.use(API_PATHS, (err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    console.error(`REST API error on ${req.method} ${req.originalUrl}:`, err);
+    if (res.headersSent) {
+        next(err);
+        return;
+    }
+    res.status(500).json({ error: "Internal server error." });
+});
 
-    // Horizontal
+// Everyone in a game's room who isn't seated in it is a spectator
+const countSpectators = (gameId: string, game: GameState): number => {
+    const room = io.sockets.adapter.rooms.get(gameId);
+    if (!room) return 0;
     let count = 0;
-    for (let j = 0; j < COLS; j++) {
-        count = (board[r][j] === player) ? count + 1 : 0;
-        if (count >= 4) return true;
+    for (const socketId of room) {
+        if (!game.players[socketId]) count++;
     }
+    return count;
+};
 
-    // Vertical
-    count = 0;
-    for (let i = 0; i < ROWS; i++) {
-        count = (board[i][c] === player) ? count + 1 : 0;
-        if (count >= 4) return true;
+// Sends every socket in the game's room its own redacted view of the game
+const emitGameUpdate = (gameId: string, game: GameState) => {
+    const room = io.sockets.adapter.rooms.get(gameId);
+    if (!room) return;
+    const spectatorCount = countSpectators(gameId, game);
+    for (const socketId of room) {
+        const viewerColor = game.players[socketId] || null;
+        io.to(socketId).emit('game_update', buildPlayerView(game, viewerColor, spectatorCount));
     }
+};
+
+// --- Lobby ---
+const buildLobbyUpdate = (): LobbyUpdate => ({
+    games: listOpenGames(games),
+    queueSize: matchQueue.size(),
+});
+
+// Pushes the current open games and queue size to everyone watching the lobby
+const broadcastLobby = () => {
+    io.to(LOBBY_ROOM).emit('lobby_update', buildLobbyUpdate());
+};
 
-    // Diagonal (top-left to bottom-right)
-    count = 0;
-    let startRow = r - Math.min(r, c);
-    let startCol = c - Math.min(r, c);
-    for (let i = startRow, j = startCol; i < ROWS && j < COLS; i++, j++) {
-        count = (board[i][j] === player) ? count + 1 : 0;
-        if (count >= 4) return true;
+// Checks the board, time control and rule variant a client asked for, filling in the defaults
+const parseGameSettings = (options?: QuickMatchOptions): { config: BoardConfig, timeControl: TimeControl | null, rules: SabotageRules } | { error: string } => {
+    const config = options?.board ?? DEFAULT_BOARD_CONFIG;
+    const boardError = validateBoardConfig(config);
+    if (boardError) return { error: boardError };
+    const timeControl = options?.timeControl ?? null;
+    const timeControlError = timeControl && validateTimeControl(timeControl);
+    if (timeControlError) return { error: timeControlError };
+    const rules = options?.rules ?? DEFAULT_SABOTAGE_RULES;
+    const rulesError = validateSabotageRules(rules);
+    if (rulesError) return { error: rulesError };
+    // Copied field by field: these are also kept in the quick match queue and in tournaments
+    return {
+        config: { rows: config.rows, cols: config.cols, connect: config.connect },
+        timeControl: timeControl && copyTimeControl(timeControl),
+        rules: copySabotageRules(rules),
+    };
+};
+
+const clearReconnectTimer = (gameId: string, color: PlayerColor) => {
+    const key = `${gameId}:${color}`;
+    if (reconnectTimers[key]) {
+        clearTimeout(reconnectTimers[key]);
+        delete reconnectTimers[key];
     }
+};
 
-    // Diagonal (bottom-left to top-right)
-    count = 0;
-    startRow = r + Math.min(ROWS - 1 - r, c);
-    startCol = c - Math.min(ROWS - 1 - r, c);
-    // Check boundaries: i >= 0 and j < COLS
-    for (let i = startRow, j = startCol; i >= 0 && j < COLS; i--, j++) {
-        count = (board[i][j] === player) ? count + 1 : 0;
-        if (count >= 4) return true;
+// --- Clocks ---
+// Hands the clock to whoever is on the move now (mutates the game, like the other seat helpers)
+const syncClock = (game: GameState) => {
+    if (game.clock) game.clock = advanceClock(game.clock, clockRunner(game), Date.now());
+};
+
+const clearClockTimer = (gameId: string) => {
+    if (clockTimers[gameId]) {
+        clearTimeout(clockTimers[gameId]);
+        delete clockTimers[gameId];
     }
+};
 
-    return false;
+// Arms a timer for the moment the running player's flag falls
+const scheduleFlagFall = (gameId: string) => {
+    clearClockTimer(gameId);
+    const game = games.get(gameId);
+    const runner = game?.clock?.runningFor;
+    if (!game?.clock || !runner) return;
+
+    clockTimers[gameId] = setTimeout(() => {
+        delete clockTimers[gameId];
+        const current = games.get(gameId);
+        if (!current?.clock || current.clock.runningFor !== runner) return; // They moved in time
+        if (timeLeft(current.clock, runner, Date.now()) > 0) {
+            scheduleFlagFall(gameId); // Woke up early
+            return;
+        }
+        console.log(`Game ${gameId}: ${runner} ran out of time.`);
+        applyGameAction(gameId, { type: 'time_out', player: runner });
+    }, timeLeft(game.clock, runner, Date.now()));
 };
 
-const checkDraw = (board: Board): boolean => {
-    // Check if the top row is full
-    return board[0].every(cell => cell !== null);
+// --- Ratings ---
+// A registered player as they'll be recorded in a seat
+const identityFor = (playerId: string | null | undefined): SeatIdentity | null => {
+    const player = playerId ? players.get(playerId) : undefined;
+    return player ? { playerId: player.playerId, nickname: player.nickname, rating: player.rating } : null;
 };
 
-// --- Server Setup ---
-const app = express();
-const server = http.createServer(app);
-const io = new SocketIOServer(server, {
-    cors: {
-        // Use environment variable for client URL, fallback for Next.js local dev
-        origin: process.env.CLIENT_URL || "http://localhost:3000", // Allow specific origin or local Next.js dev server
-        methods: ["GET", "POST"]
+// The registered player behind a socket, if any
+const identityOf = (socketId: string): SeatIdentity | null => {
+    return identityFor(io.sockets.sockets.get(socketId)?.data.playerId);
+};
+
+// Updates both players' ratings for a finished (or forfeited) game and shows the new ratings
+// in the seats. Only games between two different registered players count.
+const rateGame = (gameId: string, game: GameState, redScore: number) => {
+    const { red, yellow } = game.identities;
+    if (!red || !yellow || red.playerId === yellow.playerId) return;
+    const ratings = recordRatedResult(players, red.playerId, yellow.playerId, redScore);
+    if (!ratings) return;
+    game.identities = { red: { ...red, rating: ratings.red }, yellow: { ...yellow, rating: ratings.yellow } };
+    console.log(`Game ${gameId} rated: ${red.nickname} ${red.rating} -> ${ratings.red}, ${yellow.nickname} ${yellow.rating} -> ${ratings.yellow}`);
+};
+
+// --- Applying Actions ---
+// Runs one rules action, records it and broadcasts the result. Returns the rules error, if any.
+const applyGameAction = (gameId: string, action: GameAction): string | null => {
+    const game = games.get(gameId);
+    if (!game) return "Game not found.";
+
+    // The clock is authoritative: a move that arrives after the flag fell loses on time instead
+    if (action.type !== 'time_out' && game.clock?.runningFor === action.player && timeLeft(game.clock, action.player, Date.now()) <= 0) {
+        applyGameAction(gameId, { type: 'time_out', player: action.player });
+        return "Your time has run out.";
     }
-});
 
-const PORT = process.env.PORT || 3001;
+    const result = applyAction(game, action);
+    if ('error' in result) {
+        console.log(`*** REJECTED *** ${action.type} by ${action.player} in game ${gameId} (phase: ${game.gamePhase}, current: ${game.currentPlayer}): ${result.error}`);
+        return result.error;
+    }
+
+    const nextGame: GameState = {
+        ...result.state,
+        history: [...game.history, { action, events: result.events, at: Date.now() }],
+    };
+    // Dropping a piece declines the opponent's takeback request, just like a draw offer
+    const dropped = result.events.some(event => event.type === 'piece_placed');
+    if (nextGame.gamePhase === 'game_over' || (dropped && nextGame.takebackRequestedBy === getOpponent(action.player))) {
+        nextGame.takebackRequestedBy = null;
+    }
+    syncClock(nextGame);
+    if (nextGame.gamePhase === 'game_over') {
+        rateGame(gameId, nextGame, nextGame.winner === 'red' ? 1 : nextGame.winner === 'yellow' ? 0 : 0.5);
+        recordTournamentGame(gameId, nextGame, nextGame.winner);
+        if (nextGame.series) nextGame.series = recordSeriesGame(nextGame.series, nextGame.winner);
+    }
+    games.put(gameId, nextGame);
+    logEvents(gameId, result.events);
+
+    // Send update to all players in the room
+    emitGameUpdate(gameId, nextGame);
+    scheduleFlagFall(gameId);
+    scheduleComputerTurn(gameId);
+    return null;
+};
 
-io.on('connection', (socket: Socket) => {
+// --- Computer Opponent ---
+// If the computer is to act in this game, let it do so after a short pause
+const scheduleComputerTurn = (gameId: string) => {
+    const game = games.get(gameId);
+    if (!game?.computer || game.currentPlayer !== game.computer.color) return;
+
+    setTimeout(() => {
+        const current = games.get(gameId);
+        if (!current?.computer) return; // Game ended or was removed meanwhile
+        const action = chooseAiAction(current, current.computer.color, current.computer.difficulty);
+        if (action) applyGameAction(gameId, action);
+    }, COMPUTER_MOVE_DELAY_MS);
+};
+
+// Tells everyone left in the room (except `notifiedSocketIds`, who already know) why the game
+// is over for good, empties the room and removes the game
+const closeGame = (gameId: string, reason: GameCloseReason, notifiedSocketIds: string[] = []) => {
+    const game = games.get(gameId);
+    io.to(gameId).except(notifiedSocketIds).emit('game_closed', { reason });
+    io.in(gameId).socketsLeave(gameId);
+
+    clearReconnectTimer(gameId, 'red');
+    clearReconnectTimer(gameId, 'yellow');
+    clearClockTimer(gameId);
+    games.delete(gameId);
+    console.log(`Game ${gameId} removed (${reason}).`);
+    broadcastLobby();
+    if (game) reopenTournamentGame(gameId, game);
+};
+
+// --- Rematches ---
+// Starts a new game in the same room with the same players, colors swapped
+const startRematch = (gameId: string, game: GameState) => {
+    const oldRedSocketId = game.playerSockets.red;
+    const oldYellowSocketId = game.playerSockets.yellow;
+
+    // Both seats are taken once a game has been played; the game stays over if one isn't
+    if (!oldRedSocketId || !oldYellowSocketId) {
+        console.error(`Cannot reset game ${gameId}: Missing player socket info.`);
+        return;
+    }
+
+    // Fresh rules state: new Red (old Yellow) selects first
+    const resetGame: GameState = {
+        ...createRulesState(game.config, game.rules), // Same board and rules as the last game
+        // Swap colors
+        players: {
+            [oldRedSocketId]: 'yellow',
+            [oldYellowSocketId]: 'red'
+        },
+        playerSockets: {
+            red: oldYellowSocketId,
+            yellow: oldRedSocketId
+        },
+        rematchRequested: { red: false, yellow: false },
+        // Tokens follow their players to the swapped seats
+        sessionTokens: {
+            red: game.sessionTokens.yellow,
+            yellow: game.sessionTokens.red
+        },
+        disconnected: {
+            red: game.disconnected.yellow,
+            yellow: game.disconnected.red
+        },
+        history: [],
+        computer: game.computer && { ...game.computer, color: getOpponent(game.computer.color) },
+        clock: game.clock && createClock(game.clock.control), // Same time control, full clocks
+        createdAt: Date.now(),
+        chat: game.chat, // Same room, same conversation
+        identities: { red: game.identities.yellow, yellow: game.identities.red },
+        takebackRequestedBy: null,
+        tournament: game.tournament,
+        series: game.series && seriesForRematch(game.series), // Scores follow their players too
+    };
+    delete resetGame.players[COMPUTER_SOCKET_ID]; // The computer's seat has no real socket
+    syncClock(resetGame);
+    games.put(gameId, resetGame);
+
+    console.log(`Game ${gameId} reset. New Red: ${resetGame.playerSockets.red}, New Yellow: ${resetGame.playerSockets.yellow}`);
+    // Send update to all players in the room
+    emitGameUpdate(gameId, resetGame);
+    scheduleFlagFall(gameId);
+    scheduleComputerTurn(gameId);
+};
+
+// --- Tournaments ---
+const tournamentRoom = (tournamentId: string) => `tournament:${tournamentId}`;
+
+// Pushes the bracket and standings to everyone watching the tournament page
+const broadcastTournament = (tournament: Tournament) => {
+    io.to(tournamentRoom(tournament.tournamentId)).emit('tournament_update', toTournamentView(tournament));
+};
+
+// Opens a room for the next game of a match. Both seats are reserved for the match's players,
+// who take them with the session tokens `claim_tournament_seat` hands out (through
+// `rejoin_game`); the game starts once both have sat down.
+const openMatchGame = (tournament: Tournament, match: TournamentMatch): Tournament => {
+    // Colors alternate game by game, starting with the first-named player as Red
+    const gamesPlayed = match.wins[0] + match.wins[1] + match.draws;
+    const [redId, yellowId] = gamesPlayed % 2 === 0 ? match.players : [match.players[1], match.players[0]];
+    const { config, timeControl, rules } = tournament.settings;
+    const gameId = generateGameId();
+    const game: GameState = {
+        ...createGameState(config, rules),
+        currentPlayer: null,
+        gamePhase: 'waiting_for_opponent',
+        sessionTokens: { red: generateSessionToken(), yellow: generateSessionToken() },
+        identities: { red: identityFor(redId), yellow: identityFor(yellowId) },
+        clock: timeControl && createClock(timeControl),
+        tournament: { tournamentId: tournament.tournamentId, matchId: match.matchId, matchDecided: false },
+    };
+    games.put(gameId, game);
+    console.log(`Tournament ${tournament.tournamentId}: match ${match.matchId} is played in game ${gameId}.`);
+    return assignMatchGame(tournament, match.matchId, gameId);
+};
+
+// Opens games for every match that can start now
+const openPlayableMatches = (tournament: Tournament): Tournament => {
+    return playableMatches(tournament).reduce(openMatchGame, tournament);
+};
+
+// Counts a finished (or forfeited) tournament game towards its match. Either the next game of
+// the match follows in the same room, or the match is over and the tournament moves on.
+// Mutates `game`, like `rateGame`: the caller stores it.
+const recordTournamentGame = (gameId: string, game: GameState, winner: PlayerColor | null) => {
+    const ref = game.tournament;
+    const tournament = ref && tournaments.get(ref.tournamentId);
+    const match = tournament && tournament.matches.find(m => m.matchId === ref.matchId);
+    if (!ref || !tournament || match?.gameId !== gameId) return;
+
+    const winnerId = winner ? game.identities[winner]?.playerId ?? null : null;
+    const result = recordMatchGame(tournament, ref.matchId, winnerId);
+    let next = result.tournament;
+    if (result.matchDecided) {
+        game.tournament = { ...ref, matchDecided: true };
+        next = openPlayableMatches(next);
+        console.log(`Tournament ${next.tournamentId}: match ${ref.matchId} decided.${next.status === 'finished' ? ' The tournament is over.' : ''}`);
+    } else {
+        setTimeout(() => {
+            const current = games.get(gameId);
+            if (current?.gamePhase === 'game_over' && current.tournament?.matchId === ref.matchId) startRematch(gameId, current);
+        }, TOURNAMENT_NEXT_GAME_DELAY_MS);
+    }
+    tournaments.put(next);
+    broadcastTournament(next);
+};
+
+// A tournament game swept because players in `absent` never took their seats or stopped
+// playing: they forfeit the whole match, so the tournament isn't held up game after game
+const forfeitTournamentGame = (game: GameState, absent: PlayerColor[]) => {
+    const ref = game.tournament;
+    const tournament = ref && tournaments.get(ref.tournamentId);
+    if (!ref || !tournament || !absent.length) return;
+    const absentIds = absent.map(color => game.identities[color]?.playerId).filter((id): id is string => !!id);
+    const next = openPlayableMatches(forfeitMatch(tournament, ref.matchId, absentIds));
+    if (next === tournament) return;
+    console.log(`Tournament ${next.tournamentId}: match ${ref.matchId} forfeited by ${absent.join(' and ')}.`);
+    tournaments.put(next);
+    broadcastTournament(next);
+};
+
+// A tournament game closed before its match was decided (a player left, or it sat idle) is
+// replaced by a fresh room, so the match can go on
+const reopenTournamentGame = (gameId: string, game: GameState) => {
+    const tournament = game.tournament && tournaments.get(game.tournament.tournamentId);
+    const match = tournament && tournament.matches.find(m => m.matchId === game.tournament?.matchId);
+    if (!tournament || !match || match.gameId !== gameId || match.status !== 'playing') return;
+    const next = openMatchGame(tournament, match);
+    tournaments.put(next);
+    broadcastTournament(next);
+};
+
+// --- Handle Player Leaving Game (Button Click or Grace Period Expiry) ---
+const removePlayerFromGame = (gameId: string, leavingPlayer: PlayerColor) => {
+    const game = games.get(gameId);
+    if (!game) return;
+
+    const leavingSocketId = game.playerSockets[leavingPlayer];
+    const opponentSocketId = game.playerSockets[leavingPlayer === 'red' ? 'yellow' : 'red'];
+    console.log(`Player ${leavingPlayer} (${leavingSocketId}) left game ${gameId}.`);
+
+    // Walking out of (or never coming back to) a game in progress loses it
+    if (isActivePhase(game.gamePhase)) {
+        rateGame(gameId, game, leavingPlayer === 'red' ? 0 : 1);
+        recordTournamentGame(gameId, game, getOpponent(leavingPlayer));
+    }
+
+    // Notify opponent if they exist
+    if (opponentSocketId) {
+        console.log(`Notifying opponent ${opponentSocketId} in game ${gameId}.`);
+        io.to(opponentSocketId).emit('opponent_left');
+    }
+
+    // Let any spectators know the game is over for good, and remove it
+    const seatedSocketIds = [leavingSocketId, opponentSocketId].filter((id): id is string => !!id);
+    closeGame(gameId, 'player_left', seatedSocketIds);
+
+    // Make the leaving socket leave the room (might be redundant if disconnected, but safe)
+    const leavingSocket = leavingSocketId ? io.sockets.sockets.get(leavingSocketId) : undefined;
+    if (leavingSocket) {
+        leavingSocket.leave(gameId);
+    }
+};
+
+// Holds a dropped player's seat for the grace period instead of ending the game
+const holdSeat = (gameId: string, color: PlayerColor) => {
+    const game = games.get(gameId);
+    if (!game) return;
+
+    game.disconnected[color] = true;
+    games.put(gameId, game);
+    console.log(`Holding ${color}'s seat in game ${gameId} for ${RECONNECT_GRACE_MS}ms.`);
+    emitGameUpdate(gameId, game);
+    if (game.gamePhase === 'waiting_for_opponent') broadcastLobby(); // Hidden until the creator is back
+
+    clearReconnectTimer(gameId, color);
+    reconnectTimers[`${gameId}:${color}`] = setTimeout(() => {
+        delete reconnectTimers[`${gameId}:${color}`];
+        console.log(`Grace period expired for ${color} in game ${gameId}.`);
+        removePlayerFromGame(gameId, color);
+    }, RECONNECT_GRACE_MS);
+};
+
+io.on('connection', (socket) => {
     console.log('a user connected:', socket.id);
+    let spectatingGameId: string | null = null; // Game this socket is watching, if any
+
+    const stopSpectating = () => {
+        if (!spectatingGameId) return;
+        const gameId = spectatingGameId;
+        spectatingGameId = null;
+        socket.leave(gameId);
+        const game = games.get(gameId);
+        if (game) emitGameUpdate(gameId, game); // Refresh the spectator count
+    };
+
+    const leaveQuickMatch = () => {
+        if (matchQueue.leave(socket.id)) broadcastLobby();
+    };
+
+    const sendError = (event: ErrorEvent, code: ErrorCode, message: string) => {
+        socket.emit(event, { code, message });
+    };
+
+    // --- Abuse Protection ---
+    const clientIp = socket.handshake.address;
+
+    const withinRateLimit = (event: ClientEvent): boolean => {
+        const eventClass = EVENT_CLASSES[event];
+        const now = Date.now();
+        return rateLimiter.allow(`socket:${socket.id}:${eventClass}`, rateLimits.perSocket[eventClass], now)
+            && rateLimiter.allow(`ip:${clientIp}:${eventClass}`, rateLimits.perIp[eventClass], now);
+    };
+
+    // Rate-limited and malformed requests are strikes; a socket with too many is cut off
+    const addStrike = () => {
+        if (rateLimiter.allow(`strikes:${socket.id}`, rateLimits.strikes, Date.now())) return;
+        console.log(`Disconnecting ${socket.id} (${clientIp}) after repeated refused requests.`);
+        sendError('game_error', 'rate_limited', "Too many refused requests. You have been disconnected.");
+        socket.disconnect(true);
+    };
+
+    // Refuses (with an error sent back) a request that would put this socket in one game too
+    // many, or, when `creating`, the server over its total number of games
+    const atGameCap = (event: ClientEvent, creating: boolean): boolean => {
+        const allGames = games.list();
+        if (creating && allGames.length >= rateLimits.maxGames) {
+            console.log(`Refused ${event} from ${socket.id}: the server holds ${allGames.length} games.`);
+            sendError(errorEventFor(event), 'server_full', "The server is full right now. Please try again later.");
+            return true;
+        }
+        const seatedIn = allGames.filter(({ game }) => game.players[socket.id]).length;
+        if (seatedIn >= rateLimits.maxGamesPerConnection) {
+            const cap = rateLimits.maxGamesPerConnection;
+            sendError(errorEventFor(event), 'too_many_games', `You can't be in more than ${cap} ${cap === 1 ? 'game' : 'games'} at once.`);
+            return true;
+        }
+        return false;
+    };
+
+    // Registers a handler for a client event. Requests over the rate limit and malformed
+    // payloads never reach it: they're refused with an error and count as strikes.
+    const onClientEvent = <E extends ClientEvent>(event: E, handler: (payload: Parameters<ClientToServerEvents[E]>[0]) => void) => {
+        const listener = (payload: Parameters<ClientToServerEvents[E]>[0]) => {
+            if (!withinRateLimit(event)) {
+                console.log(`Rate limited ${event} from ${socket.id} (${clientIp}).`);
+                sendError('game_error', 'rate_limited', "You're sending requests too quickly. Please slow down.");
+                addStrike();
+                return;
+            }
+            const problem = validateClientPayload(event, payload);
+            if (problem) {
+                console.log(`Rejected ${event} from ${socket.id}: ${problem}`);
+                sendError(errorEventFor(event), 'invalid_payload', problem);
+                addStrike();
+                return;
+            }
+            handler(payload);
+        };
+        socket.on(event, listener as Parameters<typeof socket.on<E>>[1]);
+    };
 
     // --- Game Creation ---
-    socket.on('create_game', () => {
+    onClientEvent('create_game', (options) => {
+        if (atGameCap('create_game', true)) return;
         const gameId = generateGameId();
-        const playerColor: Player = 'red'; // First player is always red for now
+        const vsComputer = options?.vsComputer;
+        const settings = parseGameSettings(options);
+        if ('error' in settings) {
+            sendError('game_error', 'invalid_settings', settings.error);
+            return;
+        }
+        const { config: boardConfig, timeControl, rules } = settings;
+        const seriesError = options?.bestOf !== undefined && validateSeriesLength(options.bestOf);
+        if (seriesError) {
+            sendError('game_error', 'invalid_settings', seriesError);
+            return;
+        }
+        leaveQuickMatch(); // Creating a game takes us out of the queue
+        // First player is red, unless they chose to play yellow against the computer
+        const playerColor: PlayerColor = vsComputer ? vsComputer.humanColor : 'red';
+        const computerColor = getOpponent(playerColor);
 
         // Create initial game state
-        games[gameId] = {
-            board: createEmptyBoard(),
-            players: { [socket.id]: playerColor },
-            playerSockets: { red: socket.id, yellow: null },
+        const game: GameState = {
+            ...createGameState(boardConfig, rules),
             currentPlayer: null, // No one can play until opponent joins
-            winner: null,
-            isDraw: false,
             gamePhase: 'waiting_for_opponent',
-            redSabotage: null,
-            yellowSabotage: null,
-            overlapJustTriggered: null,
-            sabotageTriggeredBy: null, // Initialize new field
-            rematchRequested: { red: false, yellow: false }, // Initialize new field
-            pendingReselect: { red: false, yellow: false }, // Initialize new structure
+            players: { [socket.id]: playerColor },
+            computer: vsComputer ? { color: computerColor, difficulty: vsComputer.difficulty } : null,
+            clock: timeControl && createClock(timeControl),
+            series: options?.bestOf ? createSeries(options.bestOf) : null,
         };
+        game.playerSockets[playerColor] = socket.id;
+        game.sessionTokens[playerColor] = generateSessionToken();
+        game.identities[playerColor] = identityOf(socket.id);
+        if (vsComputer) {
+            // The computer takes the other seat straight away, so the game can start
+            game.playerSockets[computerColor] = COMPUTER_SOCKET_ID;
+            game.gamePhase = 'init_select_red';
+            game.currentPlayer = 'red';
+            syncClock(game);
+        }
+        games.put(gameId, game);
 
         // Put the creating player into the room
         socket.join(gameId);
-        console.log(`Player ${socket.id} created game ${gameId} as ${playerColor}`);
+        console.log(`Player ${socket.id} created game ${gameId} as ${playerColor} on a ${boardConfig.cols}x${boardConfig.rows} board (connect ${boardConfig.connect})${isDefaultRules(rules) ? '' : ' with a rule variant'}${vsComputer ? ` vs computer (${vsComputer.difficulty})` : ''}${game.series ? `, best of ${game.series.bestOf}` : ''}`);
 
         // Send confirmation and game details back to the creator
-        socket.emit('game_created', { gameId, playerColor });
+        socket.emit('game_created', { gameId, playerColor, sessionToken: game.sessionTokens[playerColor] });
         // Send initial game state
-        socket.emit('game_update', games[gameId]);
+        socket.emit('game_update', buildPlayerView(game, playerColor, 0));
+        scheduleFlagFall(gameId);
+        scheduleComputerTurn(gameId);
+        if (!vsComputer) broadcastLobby(); // A new open game
     });
 
     // --- Game Joining ---
-    socket.on('join_game', (gameIdToJoin: string) => {
-        const game = games[gameIdToJoin];
+    onClientEvent('join_game', (gameIdToJoin) => {
+        if (atGameCap('join_game', false)) return;
+        const game = games.get(gameIdToJoin);
 
         // Validation
         if (!game) {
             console.log(`Join attempt failed: Game ${gameIdToJoin} not found.`);
-            socket.emit('join_error', { message: `Game not found: ${gameIdToJoin}` });
+            sendError('join_error', 'game_not_found', `Game not found: ${gameIdToJoin}`);
+            return;
+        }
+
+        if (game.tournament) {
+            console.log(`Join attempt failed: Game ${gameIdToJoin} belongs to a tournament.`);
+            sendError('join_error', 'seat_unavailable', 'This game is reserved for a tournament match. You can watch it instead.');
             return;
         }
 
         if (game.playerSockets.yellow !== null) {
             console.log(`Join attempt failed: Game ${gameIdToJoin} is already full.`);
-            socket.emit('join_error', { message: 'This game is already full.' });
+            sendError('join_error', 'game_full', 'This game is already full.');
             return;
         }
 
         if (game.playerSockets.red === socket.id) {
             console.log(`Join attempt ignored: Player ${socket.id} tried to join their own game ${gameIdToJoin}.`);
             // Optionally emit an info message, or just ignore
-            // socket.emit('join_error', { message: 'You cannot join your own game.' });
+            // sendError('join_error', 'action_rejected', 'You cannot join your own game.');
             return; // Prevent joining own game
         }
 
+        // A spectator taking the open seat stops being a spectator
+        if (spectatingGameId === gameIdToJoin) spectatingGameId = null;
+
         // Assign player and update state
         const playerColor: Player = 'yellow';
         game.players[socket.id] = playerColor;
         game.playerSockets.yellow = socket.id;
+        game.identities.yellow = identityOf(socket.id);
+        game.sessionTokens.yellow = generateSessionToken();
         game.gamePhase = 'init_select_red'; // Game starts, Red selects sabotage first
         game.currentPlayer = 'red'; // Red's turn to select
+        syncClock(game); // Red's clock starts now
+        games.put(gameIdToJoin, game);
 
         // Add joining player to the room
         socket.join(gameIdToJoin);
         console.log(`Player ${socket.id} joined game ${gameIdToJoin} as ${playerColor}`);
 
         // Notify the joining player
-        socket.emit('game_joined', { gameId: gameIdToJoin, playerColor });
+        socket.emit('game_joined', { gameId: gameIdToJoin, playerColor, sessionToken: game.sessionTokens.yellow });
 
         // Send updated game state to EVERYONE in the room
-        io.to(gameIdToJoin).emit('game_update', game);
+        emitGameUpdate(gameIdToJoin, game);
         console.log(`Sent game_update to room ${gameIdToJoin}`);
+        scheduleFlagFall(gameIdToJoin);
+        leaveQuickMatch();
+        broadcastLobby(); // The game is no longer open
 
     });
 
-    // --- Sabotage Selection ---
-    socket.on('select_sabotage', ({ gameId, row, col }: { gameId: string, row: number, col: number }) => {
-        const game = games[gameId];
+    // The game and seat this socket plays in, or null (with an error sent back) if it doesn't
+    const findMySeat = (gameId: string): { game: GameState, playerColor: PlayerColor } | null => {
+        const game = games.get(gameId);
         if (!game) {
-            console.error(`Sabotage selection failed: Game ${gameId} not found.`);
-            socket.emit('game_error', { message: "Game not found for sabotage selection." });
-            return;
+            console.error(`Action failed: Game ${gameId} not found.`);
+            sendError('game_error', 'game_not_found', "Game not found.");
+            return null;
         }
 
         const playerColor = game.players[socket.id];
         if (!playerColor) {
-            console.error(`Sabotage selection failed: Player ${socket.id} not found in game ${gameId}.`);
-            socket.emit('game_error', { message: "Error identifying player for sabotage selection." });
-            return;
+            console.error(`Action failed: Player ${socket.id} not found in game ${gameId}.`);
+            sendError('game_error', 'not_in_game', "Error identifying player.");
+            return null;
         }
+        return { game, playerColor };
+    };
 
-        // --- Stricter Validation --- 
-        let canSelect = false;
-        const correctTurn = game.currentPlayer === playerColor;
+    // Runs one rules action for the player behind this socket and broadcasts the result
+    const applyPlayerAction = (gameId: string, buildAction: (player: PlayerColor) => GameAction) => {
+        const seat = findMySeat(gameId);
+        if (!seat) return;
 
-        // Case 1: Explicit selection phase (init or post-overlap/trigger)
-        if ((game.gamePhase === 'init_select_red' || game.gamePhase === 'sabotage_select_red') && playerColor === 'red' && correctTurn) {
-            canSelect = true;
-        } else if ((game.gamePhase === 'init_select_yellow' || game.gamePhase === 'sabotage_select_yellow') && playerColor === 'yellow' && correctTurn) {
-            canSelect = true;
-        }
-        // Case 2: Delayed reselect during playing phase (turn MUST belong to player with pending flag)
-        else if (game.gamePhase === 'playing' && correctTurn) { // Check if it's the player's turn first
-            if (playerColor === 'red' && game.pendingReselect.red) {
-                canSelect = true;
-            } else if (playerColor === 'yellow' && game.pendingReselect.yellow) {
-                canSelect = true;
-            }
-        }
-
-        if (!canSelect) {
-            console.log(`*** REJECTED *** Invalid sabotage selection attempt by ${playerColor} in phase ${game.gamePhase} (current: ${game.currentPlayer}, pending: R${game.pendingReselect.red} Y${game.pendingReselect.yellow})`);
-            socket.emit('game_error', { message: "Cannot select sabotage at this time." });
-            return;
+        const error = applyGameAction(gameId, buildAction(seat.playerColor));
+        if (error) {
+            sendError('game_error', 'action_rejected', error);
         }
-        // --- End Stricter Validation ---
+    };
 
-        // Proceed if validation passed...
-        const isDelayedReselect = game.gamePhase === 'playing' && canSelect; // We know it must be a delayed reselect if phase is playing
+    // --- Sabotage Selection ---
+    onClientEvent('select_sabotage', ({ gameId, row, col }) => {
+        applyPlayerAction(gameId, player => ({ type: 'select_sabotage', player, row, col }));
+    });
 
-        // Validate coordinates
-        if (row < 0 || row >= ROWS || col < 0 || col >= COLS) {
-            console.log(`Invalid coordinates for sabotage selection: (${row}, ${col})`);
-            socket.emit('game_error', { message: "Invalid coordinates selected." });
-            return;
-        }
-        // Optional: Add check if cell is already occupied by a piece
-        // if (game.board[row][col] !== null) {
-        //     socket.emit('game_error', { message: "Cannot select an occupied cell for sabotage." });
-        //     return;
-        // }
+    // --- Make Move ---
+    onClientEvent('make_move', ({ gameId, col }) => {
+        applyPlayerAction(gameId, player => ({ type: 'make_move', player, col }));
+    });
 
-        console.log(`Player ${playerColor} (${socket.id}) selected sabotage at (${row}, ${col}) in game ${gameId} (Delayed: ${isDelayedReselect})`);
+    // --- Resigning, Draws & Takebacks ---
+    onClientEvent('resign', ({ gameId }) => {
+        applyPlayerAction(gameId, player => ({ type: 'resign', player }));
+    });
 
-        // Update Sabotage Spot
-        if (playerColor === 'red') {
-            game.redSabotage = { row, col };
-        } else {
-            game.yellowSabotage = { row, col };
-        }
-
-        // Advance Phase and Current Player
-        const currentPhase = game.gamePhase; // Use phase *before* potential change
-        const cause = game.sabotageTriggeredBy; // Store the cause before potentially resetting it
-
-        // Clear the pending flag now that selection is happening
-        if (isDelayedReselect) {
-            console.log(`Clearing pending reselect flag for ${playerColor}`);
-            if (playerColor === 'red') game.pendingReselect.red = false;
-            else game.pendingReselect.yellow = false;
-        }
-
-        // Phase transition logic
-        if (currentPhase === 'init_select_red') {
-            game.gamePhase = 'init_select_yellow';
-            game.currentPlayer = 'yellow';
-            game.sabotageTriggeredBy = null; // Clear trigger info
-        } else if (currentPhase === 'init_select_yellow') {
-            game.gamePhase = 'playing';
-            game.currentPlayer = 'red'; // Red starts the playing phase
-            game.sabotageTriggeredBy = null; // Clear trigger info
-        } else if (currentPhase === 'sabotage_select_red' || (isDelayedReselect && playerColor === 'red')) {
-            const selectingPlayer = 'red';
-            const opponentPlayer = 'yellow';
-            if (game.overlapJustTriggered === selectingPlayer) {
-                game.gamePhase = 'sabotage_select_yellow';
-                game.currentPlayer = opponentPlayer;
-                // Keep overlapJustTriggered, sabotageTriggeredBy is already null from overlap
-            } else {
-                // Non-overlap reselection by Red
-                if (cause === selectingPlayer) { // Check cause: Self-trigger?
-                    game.currentPlayer = opponentPlayer; // Yes, turn passes to Yellow
-                } else { // No, must have been opponent trigger
-                    game.currentPlayer = selectingPlayer; // Turn stays with Red
-                }
-                game.gamePhase = 'playing';
-                game.overlapJustTriggered = null;
-                game.sabotageTriggeredBy = null; // Reset trigger info AFTER using it
-            }
-        } else if (currentPhase === 'sabotage_select_yellow' || (isDelayedReselect && playerColor === 'yellow')) {
-            const selectingPlayer = 'yellow';
-            const opponentPlayer = 'red';
-            if (game.overlapJustTriggered === selectingPlayer) {
-                game.gamePhase = 'sabotage_select_red';
-                game.currentPlayer = opponentPlayer;
-                // Keep overlapJustTriggered, sabotageTriggeredBy is already null from overlap
-            } else {
-                // Non-overlap reselection by Yellow
-                if (cause === selectingPlayer) { // Check cause: Self-trigger?
-                    game.currentPlayer = opponentPlayer; // Yes, turn passes to Red
-                } else { // No, must have been opponent trigger
-                    game.currentPlayer = selectingPlayer; // Turn stays with Yellow
-                }
-                game.gamePhase = 'playing';
-                game.overlapJustTriggered = null;
-                game.sabotageTriggeredBy = null; // Reset trigger info AFTER using it
-            }
+    onClientEvent('offer_draw', ({ gameId }) => {
+        if (games.get(gameId)?.computer) {
+            sendError('game_error', 'action_rejected', "The computer doesn't accept draw offers.");
+            return;
         }
+        applyPlayerAction(gameId, player => ({ type: 'offer_draw', player }));
+    });
 
-        // Send update to all players in the room
-        io.to(gameId).emit('game_update', game);
-        console.log(`Sent game_update to room ${gameId} after sabotage selection by ${playerColor}`);
+    onClientEvent('accept_draw', ({ gameId }) => {
+        applyPlayerAction(gameId, player => ({ type: 'accept_draw', player }));
     });
 
-    // --- Make Move ---
-    socket.on('make_move', ({ gameId, col: colIndex }: { gameId: string, col: number }) => {
-        const game = games[gameId];
-        if (!game) {
-            console.error(`Make move failed: Game ${gameId} not found.`);
-            socket.emit('game_error', { message: "Game not found for making move." });
+    // A takeback undoes the requester's latest drop (and everything after it) once the opponent agrees
+    onClientEvent('request_takeback', ({ gameId }) => {
+        const seat = findMySeat(gameId);
+        if (!seat) return;
+        const { game, playerColor } = seat;
+        if (game.computer) {
+            sendError('game_error', 'action_rejected', "The computer doesn't take back moves.");
             return;
         }
-
-        const playerMakingMove = game.players[socket.id] as Player;
-        if (!playerMakingMove) {
-            console.error(`Make move failed: Player ${socket.id} not found in game ${gameId}.`);
-            socket.emit('game_error', { message: "Error identifying player for making move." });
+        if (game.takebackRequestedBy) {
+            sendError('game_error', 'action_rejected', "A takeback has already been requested.");
             return;
         }
-
-        // --- START: Check for Delayed Sabotage Reselect ---
-        let needsReselect = false;
-        if (playerMakingMove === 'red' && game.pendingReselect.red) {
-            needsReselect = true;
-        } else if (playerMakingMove === 'yellow' && game.pendingReselect.yellow) {
-            needsReselect = true;
+        if (findTakebackIndex(game, playerColor) < 0) {
+            sendError('game_error', 'action_rejected', "You have no move to take back right now.");
+            return;
         }
 
-        if (needsReselect) {
-            console.log(`Player ${playerMakingMove}'s turn arriving, initiating delayed sabotage reselect.`);
-
-            // Clear the spot now
-            if (playerMakingMove === 'red') game.redSabotage = null;
-            else game.yellowSabotage = null;
-
-            // Clear the pending flag for this player
-            if (playerMakingMove === 'red') game.pendingReselect.red = false;
-            else game.pendingReselect.yellow = false;
-
-            // Set phase for selection
-            game.gamePhase = playerMakingMove === 'red' ? 'sabotage_select_red' : 'sabotage_select_yellow';
-            game.currentPlayer = playerMakingMove; // It IS their turn to select
-            game.sabotageTriggeredBy = null; // Clear trigger info as it's resolved
-            game.overlapJustTriggered = null;
-
-            io.to(gameId).emit('game_update', game);
-            console.log(`Sent game_update for delayed sabotage selection start by ${playerMakingMove}`);
-            return; // Stop processing the move they tried to make
-        }
-        // --- END: Check for Delayed Sabotage Reselect ---
+        const nextGame: GameState = { ...game, takebackRequestedBy: playerColor };
+        games.put(gameId, nextGame);
+        console.log(`Game ${gameId}: ${playerColor} asked for a takeback.`);
+        emitGameUpdate(gameId, nextGame);
+    });
 
-        // Validate Phase and Turn
-        if (game.gamePhase !== 'playing') {
-            console.log(`Invalid move attempt by ${playerMakingMove}: Not in playing phase (${game.gamePhase}).`);
-            socket.emit('game_error', { message: "You can only make moves during the 'playing' phase." });
-            return;
-        }
-        if (game.currentPlayer !== playerMakingMove) {
-            console.log(`Invalid move attempt: Not ${playerMakingMove}'s turn (current: ${game.currentPlayer}).`);
-            socket.emit('game_error', { message: "It's not your turn." });
+    onClientEvent('accept_takeback', ({ gameId }) => {
+        const seat = findMySeat(gameId);
+        if (!seat) return;
+        const { game, playerColor } = seat;
+        const requester = game.takebackRequestedBy;
+        const index = requester === getOpponent(playerColor) ? findTakebackIndex(game, requester) : -1;
+        if (index < 0) {
+            sendError('game_error', 'action_rejected', "There is no takeback request to accept.");
             return;
         }
 
-        // Validate Column
-        if (colIndex < 0 || colIndex >= COLS) {
-            console.log(`Invalid move attempt: Invalid column index ${colIndex}.`);
-            socket.emit('game_error', { message: "Invalid column selected." });
+        const nextGame = rewindGame(game, index);
+        syncClock(nextGame);
+        games.put(gameId, nextGame);
+        console.log(`Game ${gameId}: took back ${game.history.length - index} action(s) for ${requester}.`);
+        emitGameUpdate(gameId, nextGame);
+        scheduleFlagFall(gameId);
+    });
+
+    // --- Spectating ---
+    onClientEvent('spectate_game', (gameIdToWatch) => {
+        const game = games.get(gameIdToWatch);
+        if (!game) {
+            console.log(`Spectate attempt failed: Game ${gameIdToWatch} not found.`);
+            sendError('join_error', 'game_not_found', `Game not found: ${gameIdToWatch}`);
             return;
         }
 
-        // Find Landing Row
-        let rowIndex = -1;
-        for (let i = ROWS - 1; i >= 0; i--) {
-            if (game.board[i][colIndex] === null) {
-                rowIndex = i;
-                break;
-            }
+        if (game.players[socket.id]) {
+            console.log(`Spectate attempt ignored: Player ${socket.id} is already seated in game ${gameIdToWatch}.`);
+            return;
         }
 
-        if (rowIndex < 0) {
-            console.log(`Invalid move attempt: Column ${colIndex} is full.`);
-            socket.emit('game_error', { message: "This column is full." });
-            return;
-        }
-
-        // --- Sabotage Logic ---
-        const opponent = playerMakingMove === 'red' ? 'yellow' : 'red';
-        const targetCoords = { row: rowIndex, col: colIndex };
-
-        const isOverlap = game.redSabotage?.row === targetCoords.row && game.redSabotage?.col === targetCoords.col &&
-            game.yellowSabotage?.row === targetCoords.row && game.yellowSabotage?.col === targetCoords.col;
-
-        const isOpponentSabotage = !isOverlap && (
-            (playerMakingMove === 'red' && game.yellowSabotage?.row === targetCoords.row && game.yellowSabotage?.col === targetCoords.col) ||
-            (playerMakingMove === 'yellow' && game.redSabotage?.row === targetCoords.row && game.redSabotage?.col === targetCoords.col)
-        );
-
-        const isOwnSabotage = !isOverlap && !isOpponentSabotage && (
-            (playerMakingMove === 'red' && game.redSabotage?.row === targetCoords.row && game.redSabotage?.col === targetCoords.col) ||
-            (playerMakingMove === 'yellow' && game.yellowSabotage?.row === targetCoords.row && game.yellowSabotage?.col === targetCoords.col)
-        );
-
-        const playerToPlace = isOpponentSabotage ? opponent : playerMakingMove;
-
-        console.log(`Player ${playerMakingMove} moves to (${rowIndex}, ${colIndex}). Overlap: ${isOverlap}, OppSab: ${isOpponentSabotage}, OwnSab: ${isOwnSabotage}. Piece: ${playerToPlace}`);
-
-        // --- Update Board and Check Win/Draw ---
-        game.board[rowIndex][colIndex] = playerToPlace;
-
-        if (checkWin(game.board, playerToPlace, rowIndex, colIndex)) {
-            console.log(`Player ${playerToPlace} wins game ${gameId}!`);
-            game.winner = playerToPlace;
-            game.gamePhase = 'game_over';
-            io.to(gameId).emit('game_update', game);
-            return; // Game over
-        }
-
-        if (checkDraw(game.board)) {
-            console.log(`Game ${gameId} is a draw!`);
-            game.isDraw = true;
-            game.gamePhase = 'game_over';
-            io.to(gameId).emit('game_update', game);
-            return; // Game over
-        }
-
-        // --- Handle Sabotage Outcomes & Next Turn/Phase ---
-        if (isOverlap) {
-            console.log(`Overlap triggered by ${playerMakingMove} at (${rowIndex}, ${colIndex}) in game ${gameId}. Both reselect.`);
-            game.overlapJustTriggered = playerMakingMove;
-            game.redSabotage = null;
-            game.yellowSabotage = null;
-            game.pendingReselect = { red: false, yellow: false }; // Clear pending flags
-            game.sabotageTriggeredBy = null; // Clear trigger info on overlap
-            game.gamePhase = playerMakingMove === 'red' ? 'sabotage_select_red' : 'sabotage_select_yellow';
-            game.currentPlayer = playerMakingMove;
-        } else if (isOpponentSabotage) {
-            console.log(`Sabotage triggered by ${playerMakingMove} on ${opponent}'s spot in game ${gameId}. ${opponent} reselects.`);
-            game.overlapJustTriggered = null;
-            game.sabotageTriggeredBy = playerMakingMove; // Store who triggered it for select_sabotage logic
-            if (playerMakingMove === 'red') game.yellowSabotage = null;
-            else game.redSabotage = null;
-            game.pendingReselect = { red: false, yellow: false }; // Clear pending flags
-            game.gamePhase = opponent === 'red' ? 'sabotage_select_red' : 'sabotage_select_yellow';
-            game.currentPlayer = opponent;
-        } else if (isOwnSabotage) {
-            console.log(`Player ${playerMakingMove} triggered own sabotage in game ${gameId}. Reselect DELAYED.`);
-            game.overlapJustTriggered = null;
-            // SET the pending flag for the player who triggered it
-            if (playerMakingMove === 'red') game.pendingReselect.red = true;
-            else game.pendingReselect.yellow = true;
-            game.sabotageTriggeredBy = playerMakingMove; // Store who caused the pending state
-            // Turn passes to opponent
-            game.currentPlayer = opponent;
-        } else {
-            // Normal move
-            game.overlapJustTriggered = null;
-            // Keep existing pendingReselect flags
-            game.sabotageTriggeredBy = null; // Clear trigger info on normal move
-            game.currentPlayer = opponent;
-        }
+        stopSpectating(); // Only watch one game at a time
+        spectatingGameId = gameIdToWatch;
+        socket.join(gameIdToWatch);
+        console.log(`Socket ${socket.id} is spectating game ${gameIdToWatch}`);
 
-        // Send update to all players in the room
-        io.to(gameId).emit('game_update', game);
-        console.log(`Sent game_update to room ${gameId} after move by ${playerMakingMove}`);
+        socket.emit('spectate_joined', { gameId: gameIdToWatch });
+        emitGameUpdate(gameIdToWatch, game); // Send the view and the new spectator count to everyone
     });
 
     // --- Rematch Logic ---
-    socket.on('request_rematch', ({ gameId }: { gameId: string }) => {
-        const game = games[gameId];
+    onClientEvent('request_rematch', ({ gameId }) => {
+        const game = games.get(gameId);
         if (!game) {
             console.error(`Rematch request failed: Game ${gameId} not found.`);
-            socket.emit('game_error', { message: "Game not found for rematch." });
+            sendError('game_error', 'game_not_found', "Game not found for rematch.");
             return;
         }
 
         if (game.gamePhase !== 'game_over') {
             console.log(`Invalid rematch request: Game ${gameId} is not over.`);
-            socket.emit('game_error', { message: "Can only request rematch when game is over." });
+            sendError('game_error', 'action_rejected', "Can only request rematch when game is over.");
             return;
         }
 
         const playerColor = game.players[socket.id];
         if (!playerColor) {
             console.error(`Rematch request failed: Player ${socket.id} not identified in game ${gameId}.`);
-            socket.emit('game_error', { message: "Error identifying player for rematch." });
+            sendError('game_error', 'not_in_game', "Error identifying player for rematch.");
+            return;
+        }
+
+        // The tournament decides what's played next
+        if (game.tournament) {
+            sendError('game_error', 'action_rejected', game.tournament.matchDecided
+                ? "This tournament match is over. Check the tournament page for your next match."
+                : "The next game of this match starts by itself.");
             return;
         }
 
@@ -497,117 +922,392 @@ io.on('connection', (socket: Socket) => {
             game.rematchRequested.yellow = true;
         }
         console.log(`Player ${playerColor} requested rematch for game ${gameId}`);
+        // The computer is always up for another game
+        if (game.computer) {
+            game.rematchRequested[game.computer.color] = true;
+        }
 
         // Check if both players have requested
         if (game.rematchRequested.red && game.rematchRequested.yellow) {
             console.log(`Rematch accepted for game ${gameId}! Resetting game...`);
+            startRematch(gameId, game);
+        } else {
+            // Only one player has requested, just update the state
+            console.log(`Waiting for opponent to accept rematch in game ${gameId}`);
+            games.put(gameId, game);
+            emitGameUpdate(gameId, game); // Notify clients of the request state change
+        }
+    });
 
-            // Reset game state for rematch
-            const oldRedSocketId = game.playerSockets.red;
-            const oldYellowSocketId = game.playerSockets.yellow;
+    // --- Rejoining After a Dropped Connection ---
+    onClientEvent('rejoin_game', ({ gameId, sessionToken }) => {
+        const game = games.get(gameId);
+        if (!game) {
+            console.log(`Rejoin attempt failed: Game ${gameId} not found.`);
+            sendError('rejoin_error', 'game_not_found', `Game not found: ${gameId}`);
+            return;
+        }
 
-            // Important: Check if sockets still exist (unlikely but good practice)
-            if (!oldRedSocketId || !oldYellowSocketId) {
-                console.error(`Cannot reset game ${gameId}: Missing player socket info.`);
-                // Handle this error case - maybe delete the game?
-                return;
-            }
+        let playerColor: PlayerColor | null = null;
+        if (sessionToken && game.sessionTokens.red === sessionToken) playerColor = 'red';
+        else if (sessionToken && game.sessionTokens.yellow === sessionToken) playerColor = 'yellow';
+        if (!playerColor) {
+            console.log(`Rejoin attempt failed: Invalid session token for game ${gameId}.`);
+            sendError('rejoin_error', 'seat_unavailable', 'Your seat in this game is no longer available.');
+            return;
+        }
+
+        // Rebind the seat to the new socket
+        const oldSocketId = game.playerSockets[playerColor];
+        if (oldSocketId && oldSocketId !== socket.id) {
+            delete game.players[oldSocketId];
+            io.sockets.sockets.get(oldSocketId)?.leave(gameId); // e.g. a stale tab that never dropped
+        }
+        game.players[socket.id] = playerColor;
+        game.playerSockets[playerColor] = socket.id;
+        game.disconnected[playerColor] = false;
+        clearReconnectTimer(gameId, playerColor);
+        // Tournament games start once both players have taken their reserved seats
+        const startsNow = !!game.tournament && game.gamePhase === 'waiting_for_opponent' && !!game.playerSockets.red && !!game.playerSockets.yellow;
+        if (startsNow) {
+            game.gamePhase = 'init_select_red';
+            game.currentPlayer = 'red';
+            syncClock(game);
+        }
+        games.put(gameId, game);
 
-            game.board = createEmptyBoard();
-            // Swap colors
-            game.players = { // Rebuild players map with swapped colors
-                [oldRedSocketId]: 'yellow',
-                [oldYellowSocketId]: 'red'
-            };
-            game.playerSockets = { // Swap socket IDs
-                red: oldYellowSocketId,
-                yellow: oldRedSocketId
-            };
-            game.winner = null;
-            game.isDraw = false;
-            game.redSabotage = null;
-            game.yellowSabotage = null;
-            game.overlapJustTriggered = null;
-            game.sabotageTriggeredBy = null;
-            game.rematchRequested = { red: false, yellow: false }; // Reset requests
-            game.pendingReselect = { red: false, yellow: false }; // Reset pending reselect on rematch
-            game.gamePhase = 'init_select_red'; // New Red (old Yellow) selects first
-            game.currentPlayer = 'red'; // Set current player to new Red
-
-            console.log(`Game ${gameId} reset. New Red: ${game.playerSockets.red}, New Yellow: ${game.playerSockets.yellow}`);
-            // Send update to all players in the room
-            io.to(gameId).emit('game_update', game);
-            // Optional: emit a specific 'rematch_started' event
+        socket.join(gameId);
+        console.log(`Player ${socket.id} rejoined game ${gameId} as ${playerColor}${startsNow ? ', starting the tournament game' : ''}`);
 
+        socket.emit('game_rejoined', { gameId, playerColor });
+        emitGameUpdate(gameId, game);
+        if (startsNow) scheduleFlagFall(gameId);
+        if (game.gamePhase === 'waiting_for_opponent') broadcastLobby(); // Listed again
+    });
+
+    // Explicit leave request
+    onClientEvent('leave_game', ({ gameId }) => {
+        // Basic validation: Is the player actually in this game?
+        const color = games.get(gameId)?.players[socket.id];
+        if (color) {
+            removePlayerFromGame(gameId, color);
+        } else if (spectatingGameId === gameId) {
+            console.log(`Socket ${socket.id} stopped spectating game ${gameId}.`);
+            stopSpectating();
         } else {
-            // Only one player has requested, just update the state
-            console.log(`Waiting for opponent to accept rematch in game ${gameId}`);
-            io.to(gameId).emit('game_update', game); // Notify clients of the request state change
+            console.log(`Leave request ignored: Game ${gameId} not found for socket ${socket.id}.`);
         }
     });
 
-    // --- Handle Player Leaving Game (Button Click or Disconnect) ---
-    const handleLeave = (socketId: string) => {
-        let gameIdFound: string | null = null;
-        let leavingPlayer: Player | null = null;
-        let opponentSocketId: string | null = null;
-
-        // Find the game the disconnecting player was in
-        for (const gameId in games) {
-            const game = games[gameId];
-            if (game.playerSockets.red === socketId) {
-                gameIdFound = gameId;
-                leavingPlayer = 'red';
-                opponentSocketId = game.playerSockets.yellow;
-                break;
-            } else if (game.playerSockets.yellow === socketId) {
-                gameIdFound = gameId;
-                leavingPlayer = 'yellow';
-                opponentSocketId = game.playerSockets.red;
-                break;
-            }
+    // --- Lobby & Quick Match ---
+    onClientEvent('lobby_subscribe', () => {
+        socket.join(LOBBY_ROOM);
+        socket.emit('lobby_update', buildLobbyUpdate());
+    });
+
+    onClientEvent('lobby_unsubscribe', () => {
+        socket.leave(LOBBY_ROOM);
+    });
+
+    onClientEvent('quick_match', (options) => {
+        if (findSeats(games, socket.id).length) {
+            sendError('game_error', 'already_playing', "You are already playing a game.");
+            return;
+        }
+        if (atGameCap('quick_match', true)) return;
+        const settings = parseGameSettings(options);
+        if ('error' in settings) {
+            sendError('game_error', 'invalid_settings', settings.error);
+            return;
         }
 
-        if (gameIdFound && leavingPlayer) {
-            console.log(`Player ${leavingPlayer} (${socketId}) left game ${gameIdFound}.`);
+        const opponent = matchQueue.join({ socketId: socket.id, ...settings });
+        const opponentSocket = opponent && io.sockets.sockets.get(opponent.socketId);
+        if (!opponent || !opponentSocket) {
+            console.log(`Socket ${socket.id} is waiting for a quick match.`);
+            socket.emit('quick_match_queued');
+            broadcastLobby();
+            return;
+        }
 
-            // Notify opponent if they exist
-            if (opponentSocketId) {
-                console.log(`Notifying opponent ${opponentSocketId} in game ${gameIdFound}.`);
-                io.to(opponentSocketId).emit('opponent_left');
-            }
+        // Paired: whoever waited longer plays Red
+        const gameId = generateGameId();
+        const sessionTokens = { red: generateSessionToken(), yellow: generateSessionToken() };
+        const game: GameState = {
+            ...createGameState(settings.config, settings.rules),
+            players: { [opponent.socketId]: 'red', [socket.id]: 'yellow' },
+            playerSockets: { red: opponent.socketId, yellow: socket.id },
+            sessionTokens,
+            identities: { red: identityOf(opponent.socketId), yellow: identityOf(socket.id) },
+            clock: settings.timeControl && createClock(settings.timeControl),
+        };
+        syncClock(game);
+        games.put(gameId, game);
+        console.log(`Quick match: game ${gameId}, Red ${opponent.socketId} vs Yellow ${socket.id}`);
+
+        opponentSocket.join(gameId);
+        socket.join(gameId);
+        opponentSocket.emit('match_found', { gameId, playerColor: 'red', sessionToken: sessionTokens.red });
+        socket.emit('match_found', { gameId, playerColor: 'yellow', sessionToken: sessionTokens.yellow });
+        emitGameUpdate(gameId, game);
+        scheduleFlagFall(gameId);
+        broadcastLobby();
+    });
 
-            // Remove the game
-            delete games[gameIdFound];
-            console.log(`Game ${gameIdFound} removed.`);
+    onClientEvent('cancel_quick_match', () => {
+        leaveQuickMatch();
+        socket.emit('quick_match_cancelled');
+    });
+
+    // --- Player Identity ---
+    // Registered players are remembered by id + secret token; everyone else plays as a guest
+    onClientEvent('register_player', ({ nickname }) => {
+        const result = registerPlayer(players, nickname);
+        if ('error' in result) {
+            sendError('register_error', 'nickname_rejected', result.error);
+            return;
+        }
+        socket.data.playerId = result.player.playerId;
+        console.log(`Registered player ${result.player.nickname} (${result.player.playerId}) on socket ${socket.id}`);
+        socket.emit('player_registered', { token: result.token, profile: toProfile(result.player) });
+    });
+
+    onClientEvent('identify_player', ({ playerId, token }) => {
+        const player = authenticatePlayer(players, playerId, token);
+        if (!player) {
+            sendError('identity_error', 'unknown_player', "We couldn't find your player profile.");
+            return;
+        }
+        socket.data.playerId = player.playerId;
+        socket.emit('player_identified', { profile: toProfile(player) });
+    });
+
+    // --- Chat ---
+    // Seated players can talk; spectators only read (they get the chat with the game view)
+    const postChat = (gameId: string, kind: ChatMessage['kind'], rawText: unknown) => {
+        const game = games.get(gameId);
+        if (!game) {
+            sendError('chat_error', 'game_not_found', "Game not found.");
+            return;
+        }
+        const playerColor = game.players[socket.id];
+        if (!playerColor) {
+            sendError('chat_error', 'not_in_game', "Only players can chat in this game.");
+            return;
+        }
 
-            // Make the leaving socket leave the room (might be redundant if disconnecting, but safe)
-            const leavingSocket = io.sockets.sockets.get(socketId);
-            if (leavingSocket) {
-                leavingSocket.leave(gameIdFound);
+        let text: string;
+        if (kind === 'reaction') {
+            if (typeof rawText !== 'string' || !QUICK_REACTIONS.includes(rawText)) {
+                sendError('chat_error', 'invalid_payload', "Unknown reaction.");
+                return;
             }
+            text = rawText;
+        } else {
+            const cleaned = cleanChatText(rawText);
+            if ('error' in cleaned) {
+                sendError('chat_error', 'invalid_payload', cleaned.error);
+                return;
+            }
+            text = cleaned.text;
+        }
+        if (!chatFloodGuard.allow(socket.id, text, Date.now())) {
+            sendError('chat_error', 'rate_limited', "You're sending messages too quickly.");
+            return;
         }
+
+        const lastId = game.chat.length ? game.chat[game.chat.length - 1].id : 0;
+        const message: ChatMessage = { id: lastId + 1, from: playerColor, kind, text, at: Date.now() };
+        game.chat = [...game.chat, message].slice(-CHAT_HISTORY_LIMIT);
+        games.put(gameId, game);
+        emitGameUpdate(gameId, game);
     };
 
-    // Explicit leave request
-    socket.on('leave_game', ({ gameId }: { gameId: string }) => {
-        // Basic validation: Does the game exist?
-        if (games[gameId]) {
-            handleLeave(socket.id);
-        } else {
-            console.log(`Leave request ignored: Game ${gameId} not found for socket ${socket.id}.`);
+    onClientEvent('send_chat', ({ gameId, text }) => {
+        postChat(gameId, 'text', text);
+    });
+
+    onClientEvent('send_reaction', ({ gameId, reaction }) => {
+        postChat(gameId, 'reaction', reaction);
+    });
+
+    // --- Tournaments ---
+    // Organizing and entering a tournament takes a registered player; anyone can follow one
+    const findTournament = (tournamentId: string): Tournament | null => {
+        const tournament = tournaments.get(tournamentId);
+        if (!tournament) sendError('tournament_error', 'tournament_not_found', "Tournament not found.");
+        return tournament ?? null;
+    };
+
+    const myIdentity = (action: string): SeatIdentity | null => {
+        const identity = identityOf(socket.id);
+        if (!identity) sendError('tournament_error', 'unknown_player', `Pick a nickname before you ${action}.`);
+        return identity;
+    };
+
+    // Stores a changed tournament and shows it to everyone watching, or sends back why it couldn't change
+    const saveTournament = (result: Tournament | { error: string }, code: ErrorCode): Tournament | null => {
+        if ('error' in result) {
+            sendError('tournament_error', code, result.error);
+            return null;
+        }
+        tournaments.put(result);
+        broadcastTournament(result);
+        return result;
+    };
+
+    onClientEvent('create_tournament', (options) => {
+        const organizer = myIdentity("organize a tournament");
+        if (!organizer) return;
+        const problem = validateTournamentOptions(options.name, options.bestOf);
+        if (problem) {
+            sendError('tournament_error', 'invalid_settings', problem);
+            return;
+        }
+        const settings = parseGameSettings(options);
+        if ('error' in settings) {
+            sendError('tournament_error', 'invalid_settings', settings.error);
+            return;
+        }
+
+        const tournament = createTournament(generateGameId(), options.name, options.format, options.bestOf, organizer.playerId, settings);
+        tournaments.put(tournament);
+        console.log(`${organizer.nickname} created tournament ${tournament.tournamentId} "${tournament.name}" (${tournament.format}, best of ${tournament.bestOf})`);
+        socket.emit('tournament_created', { tournamentId: tournament.tournamentId });
+    });
+
+    onClientEvent('tournament_subscribe', (tournamentId) => {
+        const tournament = findTournament(tournamentId);
+        if (!tournament) return;
+        socket.join(tournamentRoom(tournamentId));
+        socket.emit('tournament_update', toTournamentView(tournament));
+    });
+
+    onClientEvent('tournament_unsubscribe', (tournamentId) => {
+        socket.leave(tournamentRoom(tournamentId));
+    });
+
+    onClientEvent('register_for_tournament', ({ tournamentId }) => {
+        const tournament = findTournament(tournamentId);
+        const entrant = tournament && myIdentity("register");
+        if (!tournament || !entrant) return;
+        if (saveTournament(addEntrant(tournament, entrant), 'registration_closed')) {
+            console.log(`${entrant.nickname} registered for tournament ${tournamentId}`);
         }
     });
 
-    // Handle disconnects (tab close, etc.)
+    onClientEvent('withdraw_from_tournament', ({ tournamentId }) => {
+        const tournament = findTournament(tournamentId);
+        const entrant = tournament && myIdentity("withdraw");
+        if (!tournament || !entrant) return;
+        if (saveTournament(removeEntrant(tournament, entrant.playerId), 'registration_closed')) {
+            console.log(`${entrant.nickname} withdrew from tournament ${tournamentId}`);
+        }
+    });
+
+    onClientEvent('start_tournament', ({ tournamentId }) => {
+        const tournament = findTournament(tournamentId);
+        if (!tournament) return;
+        if (socket.data.playerId !== tournament.organizerId) {
+            sendError('tournament_error', 'not_organizer', "Only the organizer can start this tournament.");
+            return;
+        }
+        const started = startTournament(tournament);
+        if (saveTournament('error' in started ? started : openPlayableMatches(started), 'action_rejected')) {
+            console.log(`Tournament ${tournamentId} started with ${tournament.entrants.length} players.`);
+        }
+    });
+
+    // Hands a match's player the session token for their seat in the match's current game.
+    // They take the seat with `rejoin_game`, from whichever tab they want to play in.
+    onClientEvent('claim_tournament_seat', ({ tournamentId, matchId }) => {
+        const tournament = findTournament(tournamentId);
+        if (!tournament) return;
+        const match = tournament.matches.find(m => m.matchId === matchId);
+        const playerId = socket.data.playerId;
+        if (!match || !playerId || !match.players.includes(playerId)) {
+            sendError('tournament_error', 'not_in_game', "You're not playing in this match.");
+            return;
+        }
+        const game = match.status === 'playing' && match.gameId ? games.get(match.gameId) : undefined;
+        if (!match.gameId || !game) {
+            sendError('tournament_error', 'action_rejected', "This match isn't being played right now.");
+            return;
+        }
+        const playerColor: PlayerColor = game.identities.red?.playerId === playerId ? 'red' : 'yellow';
+        const sessionToken = game.sessionTokens[playerColor];
+        if (!sessionToken) return;
+        socket.emit('tournament_seat', { gameId: match.gameId, playerColor, sessionToken });
+    });
+
+    // Handle disconnects (tab close, sleep, network blips): keep the seat for a while
     socket.on('disconnect', () => {
         console.log('user disconnected:', socket.id);
-        handleLeave(socket.id); // Reuse the same logic
+        chatFloodGuard.forget(socket.id);
+        leaveQuickMatch();
+        for (const seat of findSeats(games, socket.id)) {
+            holdSeat(seat.gameId, seat.color);
+        }
+        stopSpectating();
     });
 
     // More event handlers will go here
 });
 
+// --- Restore Games From the Store ---
+// Nobody is connected after a restart, so every seat in an unfinished game is held for the
+// usual grace period and players take it back with `rejoin_game`. Finished games are dropped.
+const restoreGames = () => {
+    for (const { gameId, game } of games.list()) {
+        if (game.gamePhase === 'game_over') {
+            games.delete(gameId);
+            continue;
+        }
+        console.log(`Restoring game ${gameId} (${game.gamePhase}).`);
+        if (game.clock?.turnStartedAt) {
+            // Don't charge the player on the move for the time the server was down
+            games.put(gameId, { ...game, clock: { ...game.clock, turnStartedAt: Date.now() } });
+        }
+        for (const color of ['red', 'yellow'] as const) {
+            if (game.playerSockets[color] && game.computer?.color !== color) holdSeat(gameId, color);
+        }
+        scheduleFlagFall(gameId);
+        scheduleComputerTurn(gameId);
+    }
+};
+
+restoreGames();
+
+// Matches whose game didn't survive the restart (the default game store is in memory) get a
+// fresh room, like a game closed mid-match
+const resumeTournaments = () => {
+    for (const tournament of tournaments.list()) {
+        const next = tournament.matches
+            .filter(match => match.status === 'playing' && !(match.gameId && games.get(match.gameId)))
+            .reduce(openMatchGame, tournament);
+        if (next !== tournament) tournaments.put(next);
+    }
+};
+
+resumeTournaments();
+
+// --- Sweeping Abandoned Games ---
+const sweepGames = () => {
+    const expired = findExpiredGames(games, sweeperConfig, Date.now());
+    if (!expired.length) return;
+    const counts: { [R in SweepReason]: number } = { unjoined: 0, idle: 0, finished: 0 };
+    for (const { gameId, reason } of expired) {
+        const game = games.get(gameId);
+        if (game?.tournament) forfeitTournamentGame(game, absentSeats(game, reason)); // Before closing, so no new room is opened
+        closeGame(gameId, reason);
+        counts[reason]++;
+        sweptGames[reason]++;
+    }
+    console.log(`Swept ${expired.length} game(s): ${counts.unjoined} unjoined, ${counts.idle} idle, ${counts.finished} finished. Since startup: ${sweptGames.unjoined} unjoined, ${sweptGames.idle} idle, ${sweptGames.finished} finished.`);
+};
+
+setInterval(sweepGames, sweeperConfig.intervalMs).unref();
+
 server.listen(PORT, () => {
     console.log(`Server listening on *:${PORT}`);
 }); 
\ No newline at end of file
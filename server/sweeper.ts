@@ -0,0 +1,77 @@
+import { GameCloseReason, GameState, PlayerColor } from '../src/types';
+import { GameStore } from './gameStore';
+
+// --- Sweeper ---
+// Finds games nobody is going to come back to: open games that were never joined, games
+// in progress where nothing has happened for a long time, and finished games whose players
+// never asked for (or agreed to) a rematch. The server closes them on an interval.
+// Tournament games get shorter limits, and whoever held them up forfeits the match, since
+// the rest of the tournament is waiting on them.
+
+export type SweepReason = Exclude<GameCloseReason, 'player_left'>;
+
+export interface SweeperConfig {
+    intervalMs: number;
+    unjoinedTtlMs: number; // Since the game was created
+    idleTtlMs: number; // Since the last move (or chat message) of a game in progress
+    finishedTtlMs: number; // Since the game ended
+    tournamentSeatTtlMs: number; // Since a tournament game was opened, for both players to take their seats
+    tournamentIdleTtlMs: number; // Like idleTtlMs, for tournament games
+}
+
+// Defaults, each overridable by the environment variable of the same name
+const DEFAULT_CONFIG: SweeperConfig = {
+    intervalMs: 60 * 1000, // SWEEP_INTERVAL_MS
+    unjoinedTtlMs: 30 * 60 * 1000, // SWEEP_UNJOINED_TTL_MS
+    idleTtlMs: 60 * 60 * 1000, // SWEEP_IDLE_TTL_MS
+    finishedTtlMs: 15 * 60 * 1000, // SWEEP_FINISHED_TTL_MS
+    tournamentSeatTtlMs: 10 * 60 * 1000, // SWEEP_TOURNAMENT_SEAT_TTL_MS
+    tournamentIdleTtlMs: 10 * 60 * 1000, // SWEEP_TOURNAMENT_IDLE_TTL_MS
+};
+
+export const loadSweeperConfig = (): SweeperConfig => ({
+    intervalMs: Number(process.env.SWEEP_INTERVAL_MS) || DEFAULT_CONFIG.intervalMs,
+    unjoinedTtlMs: Number(process.env.SWEEP_UNJOINED_TTL_MS) || DEFAULT_CONFIG.unjoinedTtlMs,
+    idleTtlMs: Number(process.env.SWEEP_IDLE_TTL_MS) || DEFAULT_CONFIG.idleTtlMs,
+    finishedTtlMs: Number(process.env.SWEEP_FINISHED_TTL_MS) || DEFAULT_CONFIG.finishedTtlMs,
+    tournamentSeatTtlMs: Number(process.env.SWEEP_TOURNAMENT_SEAT_TTL_MS) || DEFAULT_CONFIG.tournamentSeatTtlMs,
+    tournamentIdleTtlMs: Number(process.env.SWEEP_TOURNAMENT_IDLE_TTL_MS) || DEFAULT_CONFIG.tournamentIdleTtlMs,
+});
+
+// When anything last happened in the game: its creation (or rematch), a move or a chat message
+const lastActivityAt = (game: GameState): number => {
+    const lastAction = game.history.length ? game.history[game.history.length - 1].at : 0;
+    const lastChat = game.chat.length ? game.chat[game.chat.length - 1].at : 0;
+    return Math.max(game.createdAt, lastAction, lastChat);
+};
+
+// Why the game should be closed now, or null if it should stay
+export const sweepReasonFor = (game: GameState, config: SweeperConfig, now: number): SweepReason | null => {
+    if (game.gamePhase === 'waiting_for_opponent') {
+        const ttl = game.tournament ? config.tournamentSeatTtlMs : config.unjoinedTtlMs;
+        return now - game.createdAt >= ttl ? 'unjoined' : null;
+    }
+    const idleFor = now - lastActivityAt(game);
+    if (game.gamePhase === 'game_over') {
+        return idleFor >= config.finishedTtlMs ? 'finished' : null;
+    }
+    return idleFor >= (game.tournament ? config.tournamentIdleTtlMs : config.idleTtlMs) ? 'idle' : null;
+};
+
+// Who held up a game that's being swept: seats nobody took (or whose player dropped), or in a
+// game in progress, whoever was supposed to act. Used to forfeit tournament matches.
+export const absentSeats = (game: GameState, reason: SweepReason): PlayerColor[] => {
+    if (reason === 'finished') return [];
+    const gone = (['red', 'yellow'] as const).filter(color => !game.playerSockets[color] || game.disconnected[color]);
+    if (gone.length || reason === 'unjoined') return gone;
+    return game.currentPlayer ? [game.currentPlayer] : [];
+};
+
+export const findExpiredGames = (store: GameStore, config: SweeperConfig, now: number): { gameId: string, reason: SweepReason }[] => {
+    const expired: { gameId: string, reason: SweepReason }[] = [];
+    for (const { gameId, game } of store.list()) {
+        const reason = sweepReasonFor(game, config, now);
+        if (reason) expired.push({ gameId, reason });
+    }
+    return expired;
+};
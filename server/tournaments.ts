@@ -0,0 +1,355 @@
+import fs from 'fs';
+import path from 'path';
+
+import { Tournament, TournamentEntrant, TournamentFormat, TournamentMatch, TournamentSettings, TournamentStanding, TournamentSummary, TournamentView } from '../src/types';
+
+// --- Tournaments ---
+// Brackets and round robins as plain data. Everything here is pure: the server creates the
+// games for `playableMatches`, reports each finished game with `recordMatchGame` and stores
+// whatever comes back.
+
+export const BEST_OF_OPTIONS = [1, 3, 5, 7];
+export const MAX_ENTRANTS = 32;
+const NAME_PATTERN = /^[A-Za-z0-9_\-'!&.,: ]{2,40}$/;
+
+export const validateTournamentOptions = (rawName: unknown, bestOf: unknown): string | null => {
+    const name = typeof rawName === 'string' ? rawName.trim() : '';
+    if (!NAME_PATTERN.test(name)) return "Tournament names are 2-40 letters, numbers, spaces or simple punctuation.";
+    if (!BEST_OF_OPTIONS.includes(bestOf as number)) return `Matches are best of ${BEST_OF_OPTIONS.join(', ')} games.`;
+    return null;
+};
+
+export const createTournament = (
+    tournamentId: string,
+    name: string,
+    format: TournamentFormat,
+    bestOf: number,
+    organizerId: string,
+    settings: TournamentSettings,
+): Tournament => ({
+    tournamentId,
+    name: name.trim(),
+    format,
+    bestOf,
+    organizerId,
+    status: 'registering',
+    entrants: [],
+    matches: [],
+    settings,
+    createdAt: Date.now(),
+    championId: null,
+});
+
+// --- Registration ---
+export const addEntrant = (tournament: Tournament, entrant: Omit<TournamentEntrant, 'seed'>): Tournament | { error: string } => {
+    if (tournament.status !== 'registering') return { error: "Registration for this tournament has closed." };
+    if (tournament.entrants.some(e => e.playerId === entrant.playerId)) return { error: "You're already registered." };
+    if (tournament.entrants.length >= MAX_ENTRANTS) return { error: `This tournament is full (${MAX_ENTRANTS} players).` };
+    return { ...tournament, entrants: [...tournament.entrants, { ...entrant, seed: 0 }] };
+};
+
+export const removeEntrant = (tournament: Tournament, playerId: string): Tournament | { error: string } => {
+    if (tournament.status !== 'registering') return { error: "The tournament has started; you can no longer withdraw." };
+    if (!tournament.entrants.some(e => e.playerId === playerId)) return { error: "You're not registered." };
+    return { ...tournament, entrants: tournament.entrants.filter(e => e.playerId !== playerId) };
+};
+
+// --- Pairings ---
+const matchId = (round: number, index: number) => `r${round}m${index + 1}`;
+
+const newMatch = (round: number, index: number, players: [string | null, string | null]): TournamentMatch => ({
+    matchId: matchId(round, index),
+    round,
+    players,
+    wins: [0, 0],
+    draws: 0,
+    gameId: null,
+    status: 'pending',
+    winner: null,
+    walkover: false,
+});
+
+// Seed numbers in bracket order, so the top seeds can only meet late: 1 v 8, 4 v 5, 2 v 7, 3 v 6
+const bracketOrder = (size: number): number[] => {
+    let order = [1];
+    while (order.length < size) {
+        const next = order.length * 2;
+        order = order.flatMap(seed => [seed, next + 1 - seed]);
+    }
+    return order;
+};
+
+// A full bracket. Missing seeds are byes, which always land next to top seeds, so no first-round
+// match is empty. The winner of match i in a round plays in match floor(i / 2) of the next.
+const buildBracket = (entrants: TournamentEntrant[]): TournamentMatch[] => {
+    let size = 2;
+    while (size < entrants.length) size *= 2;
+    const bySeed = (seed: number) => entrants.find(e => e.seed === seed)?.playerId ?? null;
+    const order = bracketOrder(size);
+
+    const matches: TournamentMatch[] = [];
+    for (let i = 0; i < size / 2; i++) {
+        matches.push(newMatch(1, i, [bySeed(order[2 * i]), bySeed(order[2 * i + 1])]));
+    }
+    for (let round = 2, count = size / 4; count >= 1; round++, count /= 2) {
+        for (let i = 0; i < count; i++) matches.push(newMatch(round, i, [null, null]));
+    }
+    return matches;
+};
+
+// Everyone plays everyone once, a round at a time (the circle method: one player stays put and
+// the rest rotate). With an odd number of players, whoever is paired with the gap sits out.
+const buildRoundRobin = (entrants: TournamentEntrant[]): TournamentMatch[] => {
+    const ids: (string | null)[] = entrants.map(e => e.playerId);
+    if (ids.length % 2) ids.push(null);
+    const matches: TournamentMatch[] = [];
+    for (let round = 1; round < ids.length; round++) {
+        let index = 0;
+        for (let i = 0; i < ids.length / 2; i++) {
+            const [a, b] = [ids[i], ids[ids.length - 1 - i]];
+            if (!a || !b) continue;
+            // Swap who starts every other round so the fixed player doesn't always play Red
+            const players: [string, string] = i === 0 && round % 2 === 0 ? [b, a] : [a, b];
+            matches.push(newMatch(round, index++, players));
+        }
+        ids.splice(1, 0, ids.pop() as string | null);
+    }
+    return matches;
+};
+
+// Seeds players by rating, builds every round, and settles first-round byes
+export const startTournament = (tournament: Tournament): Tournament | { error: string } => {
+    if (tournament.status !== 'registering') return { error: "This tournament has already started." };
+    if (tournament.entrants.length < 2) return { error: "A tournament needs at least 2 players." };
+
+    const entrants = [...tournament.entrants]
+        .sort((a, b) => b.rating - a.rating)
+        .map((entrant, i) => ({ ...entrant, seed: i + 1 }));
+    const matches = tournament.format === 'single_elimination' ? buildBracket(entrants) : buildRoundRobin(entrants);
+    let started: Tournament = { ...tournament, entrants, matches, status: 'in_progress' };
+
+    for (const match of started.matches) {
+        if (match.round !== 1 || (match.players[0] && match.players[1])) continue;
+        const winner = match.players[0] ?? match.players[1];
+        started = advance(updateMatch(started, { ...match, status: 'bye', winner }), match.matchId);
+    }
+    return started;
+};
+
+// --- Results ---
+const updateMatch = (tournament: Tournament, match: TournamentMatch): Tournament => ({
+    ...tournament,
+    matches: tournament.matches.map(m => m.matchId === match.matchId ? match : m),
+});
+
+// Whether a match is over after its latest game, and who won it. A player needs a majority of
+// the games; draws don't count, so once `bestOf` games are played the leader takes the match.
+// If they're level, a round-robin match is drawn and a bracket match goes on until someone wins a game.
+const matchResult = (match: TournamentMatch, tournament: Tournament): { decided: boolean, winner: string | null } => {
+    const needed = Math.ceil(tournament.bestOf / 2);
+    const [winsA, winsB] = match.wins;
+    if (winsA >= needed) return { decided: true, winner: match.players[0] };
+    if (winsB >= needed) return { decided: true, winner: match.players[1] };
+    if (winsA + winsB + match.draws < tournament.bestOf) return { decided: false, winner: null };
+    if (winsA !== winsB) return { decided: true, winner: match.players[winsA > winsB ? 0 : 1] };
+    return tournament.format === 'round_robin' ? { decided: true, winner: null } : { decided: false, winner: null };
+};
+
+// Moves a decided match's winner into the next round of a bracket, and finishes the tournament
+// once the last match is decided
+const advance = (tournament: Tournament, decidedMatchId: string): Tournament => {
+    const match = tournament.matches.find(m => m.matchId === decidedMatchId);
+    if (!match) return tournament;
+    let next = tournament;
+
+    if (tournament.format === 'single_elimination') {
+        const index = Number(match.matchId.split('m')[1]) - 1;
+        const following = tournament.matches.find(m => m.matchId === matchId(match.round + 1, Math.floor(index / 2)));
+        if (!following) return { ...next, status: 'finished', championId: match.winner }; // That was the final
+        const players: [string | null, string | null] = [...following.players];
+        players[index % 2] = match.winner;
+        next = updateMatch(next, { ...following, players });
+    }
+
+    if (next.matches.every(m => m.status === 'finished' || m.status === 'bye')) {
+        const standings = computeStandings(next);
+        return { ...next, status: 'finished', championId: standings[0]?.playerId ?? null };
+    }
+    return next;
+};
+
+// Records the room a match is being played in (a new one whenever a game closes mid-match)
+export const assignMatchGame = (tournament: Tournament, matchIdToAssign: string, gameId: string): Tournament => {
+    const match = tournament.matches.find(m => m.matchId === matchIdToAssign);
+    return match ? updateMatch(tournament, { ...match, gameId, status: 'playing' }) : tournament;
+};
+
+// Counts one finished game of a match: `winnerId` is null for a draw. Returns the updated
+// tournament and whether the match is now decided (if not, another game follows).
+export const recordMatchGame = (tournament: Tournament, matchIdToRecord: string, winnerId: string | null): { tournament: Tournament, matchDecided: boolean } => {
+    const match = tournament.matches.find(m => m.matchId === matchIdToRecord);
+    if (!match || match.status !== 'playing') return { tournament, matchDecided: false };
+
+    const wins: [number, number] = [...match.wins];
+    if (winnerId && winnerId === match.players[0]) wins[0]++;
+    else if (winnerId && winnerId === match.players[1]) wins[1]++;
+    const played = { ...match, wins, draws: match.draws + (winnerId ? 0 : 1) };
+
+    const result = matchResult(played, tournament);
+    if (!result.decided) return { tournament: updateMatch(tournament, played), matchDecided: false };
+    const decided = updateMatch(tournament, { ...played, status: 'finished', winner: result.winner });
+    return { tournament: advance(decided, matchIdToRecord), matchDecided: true };
+};
+
+// Settles a match whose players in `absentIds` didn't take their seat in time or stopped
+// playing: whoever did show up wins it. If neither did, both lose a round-robin match, and a
+// bracket match goes to the higher seed so the bracket can still move on.
+export const forfeitMatch = (tournament: Tournament, matchIdToForfeit: string, absentIds: string[]): Tournament => {
+    const match = tournament.matches.find(m => m.matchId === matchIdToForfeit);
+    if (!match || match.status !== 'playing') return tournament;
+
+    const present = match.players.filter(id => id && !absentIds.includes(id));
+    if (present.length === 2) return tournament; // Nobody to blame
+    let winner: string | null = present.length === 1 ? present[0] : null;
+    if (!present.length && tournament.format === 'single_elimination') {
+        const seedOf = (id: string | null) => tournament.entrants.find(e => e.playerId === id)?.seed ?? Infinity;
+        winner = seedOf(match.players[0]) <= seedOf(match.players[1]) ? match.players[0] : match.players[1];
+    }
+    const decided = updateMatch(tournament, { ...match, status: 'finished', winner, walkover: true });
+    return advance(decided, matchIdToForfeit);
+};
+
+// Matches that can start now: both players known and, in a round robin, every earlier round
+// finished, so nobody is asked to play two matches at once
+export const playableMatches = (tournament: Tournament): TournamentMatch[] => {
+    if (tournament.status !== 'in_progress') return [];
+    const unfinishedRounds = tournament.matches.filter(m => m.status === 'pending' || m.status === 'playing').map(m => m.round);
+    const currentRound = Math.min(...unfinishedRounds);
+    return tournament.matches.filter(m =>
+        m.status === 'pending' && m.players[0] && m.players[1] &&
+        (tournament.format === 'single_elimination' || m.round === currentRound));
+};
+
+// --- Standings ---
+// Round robins rank by points, then games won minus games lost. Brackets rank by how far
+// players got: the champion, then everyone else by the round they went out in.
+interface StandingRow {
+    standing: Omit<TournamentStanding, 'rank'>;
+    seed: number;
+    lastRound: number; // The latest round they have a match in
+}
+
+export const computeStandings = (tournament: Tournament): TournamentStanding[] => {
+    const rows: StandingRow[] = tournament.entrants.map(entrant => {
+        const standing = {
+            playerId: entrant.playerId,
+            nickname: entrant.nickname,
+            matchWins: 0,
+            matchLosses: 0,
+            matchDraws: 0,
+            gameWins: 0,
+            gameLosses: 0,
+            points: 0,
+            eliminated: false,
+        };
+        let lastRound = 0;
+        for (const match of tournament.matches) {
+            const side = match.players.indexOf(entrant.playerId);
+            if (side < 0) continue;
+            lastRound = Math.max(lastRound, match.round);
+            standing.gameWins += match.wins[side];
+            standing.gameLosses += match.wins[1 - side];
+            if (match.status !== 'finished') continue;
+            if (match.winner === entrant.playerId) standing.matchWins++;
+            else if (match.winner || match.walkover) standing.matchLosses++; // Forfeited by both: nobody scores
+            else standing.matchDraws++;
+        }
+        standing.points = standing.matchWins + standing.matchDraws / 2;
+        standing.eliminated = tournament.format === 'single_elimination' && standing.matchLosses > 0;
+        return { standing, seed: entrant.seed, lastRound };
+    });
+
+    const compare = (a: StandingRow, b: StandingRow): number => {
+        if (tournament.format === 'single_elimination') {
+            const byBracket = Number(a.standing.eliminated) - Number(b.standing.eliminated) || b.lastRound - a.lastRound;
+            if (byBracket) return byBracket;
+        }
+        const difference = (row: StandingRow) => row.standing.gameWins - row.standing.gameLosses;
+        return b.standing.points - a.standing.points || difference(b) - difference(a) || a.seed - b.seed;
+    };
+    return rows.sort(compare).map((row, i) => ({ rank: i + 1, ...row.standing }));
+};
+
+export const toTournamentView = (tournament: Tournament): TournamentView => ({
+    ...tournament,
+    standings: computeStandings(tournament),
+});
+
+export const toTournamentSummary = (tournament: Tournament): TournamentSummary => ({
+    tournamentId: tournament.tournamentId,
+    name: tournament.name,
+    format: tournament.format,
+    bestOf: tournament.bestOf,
+    status: tournament.status,
+    entrantCount: tournament.entrants.length,
+    createdAt: tournament.createdAt,
+});
+
+// --- Tournament Store ---
+export interface TournamentStore {
+    get(tournamentId: string): Tournament | undefined;
+    put(tournament: Tournament): void;
+    list(): Tournament[];
+}
+
+export const createMemoryTournamentStore = (): TournamentStore => {
+    const tournaments: { [tournamentId: string]: Tournament } = {};
+
+    return {
+        get: (tournamentId) => tournaments[tournamentId],
+        put: (tournament) => {
+            tournaments[tournament.tournamentId] = tournament;
+        },
+        list: () => Object.values(tournaments),
+    };
+};
+
+// All tournaments in one JSON file, rewritten on every change, like the player store
+export const createFileTournamentStore = (file: string): TournamentStore => {
+    const memory = createMemoryTournamentStore();
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (fs.existsSync(file)) {
+        try {
+            const saved = JSON.parse(fs.readFileSync(file, 'utf8')) as Tournament[];
+            saved.forEach(memory.put);
+        } catch (err) {
+            console.error(`Could not read tournament file ${file}, starting empty:`, err);
+        }
+    }
+
+    return {
+        get: memory.get,
+        list: memory.list,
+        put: (tournament) => {
+            memory.put(tournament);
+            const tmpFile = `${file}.tmp`;
+            fs.writeFileSync(tmpFile, JSON.stringify(memory.list()));
+            fs.renameSync(tmpFile, file);
+        },
+    };
+};
+
+// Picks the store from the environment: TOURNAMENT_STORE=memory (default) or file (TOURNAMENT_STORE_FILE)
+export const createTournamentStore = (): TournamentStore => {
+    const kind = process.env.TOURNAMENT_STORE || 'memory';
+    if (kind === 'file') {
+        const file = path.resolve(process.env.TOURNAMENT_STORE_FILE || '.data/tournaments.json');
+        console.log(`Using file tournament store at ${file}`);
+        return createFileTournamentStore(file);
+    }
+    if (kind !== 'memory') {
+        console.warn(`Unknown TOURNAMENT_STORE "${kind}", falling back to memory.`);
+    }
+    return createMemoryTournamentStore();
+};
@@ -0,0 +1,9 @@
+import Leaderboard from "@/components/Leaderboard";
+
+export default function LeaderboardPage() {
+  return (
+    <main>
+      <Leaderboard />
+    </main>
+  );
+}
@@ -0,0 +1,10 @@
+import TournamentBracket from "@/components/TournamentBracket";
+
+export default async function TournamentPage({ params }: { params: Promise<{ tournamentId: string }> }) {
+  const { tournamentId } = await params;
+  return (
+    <main>
+      <TournamentBracket tournamentId={tournamentId} />
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import Tournaments from "@/components/Tournaments";
+
+export default function TournamentsPage() {
+  return (
+    <main>
+      <Tournaments />
+    </main>
+  );
+}
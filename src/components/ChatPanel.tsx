@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, Player } from '@/types';
+import { CHAT_MAX_LENGTH, QUICK_REACTIONS } from '@/lib/chat';
+
+interface ChatPanelProps {
+    messages: ChatMessage[];
+    myPlayerColor: Player; // null for spectators, who can only read
+    handleSendChat: (text: string) => void;
+    handleSendReaction: (reaction: string) => void;
+    chatError: string | null;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, myPlayerColor, handleSendChat, handleSendReaction, chatError }) => {
+    const [draft, setDraft] = useState<string>("");
+    const listRef = useRef<HTMLDivElement>(null);
+    const readOnly = !myPlayerColor;
+
+    // Keep the newest message in view
+    useEffect(() => {
+        if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+    }, [messages]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        handleSendChat(draft);
+        setDraft("");
+    };
+
+    return (
+        <div className="flex flex-col p-3 bg-white rounded-lg shadow-lg border border-gray-300 w-full max-w-xs sm:max-w-sm md:max-w-md lg:w-72 text-sm mb-4">
+            <h3 className="text-base font-semibold mb-2 text-gray-700">Chat{readOnly ? " (watching)" : ""}</h3>
+            <div ref={listRef} className="h-40 lg:h-64 overflow-y-auto space-y-1 mb-2 pr-1">
+                {messages.length === 0 && <p className="text-gray-400">No messages yet.</p>}
+                {messages.map(message => (
+                    <p key={message.id} className="break-words text-gray-800">
+                        <span className={`font-semibold ${message.from === 'red' ? 'text-red-600' : 'text-yellow-600'}`}>
+                            {message.from === 'red' ? 'Red' : 'Yellow'}{message.from === myPlayerColor ? ' (You)' : ''}:
+                        </span>{' '}
+                        {message.kind === 'reaction' ? <span className="italic font-semibold">{message.text}</span> : message.text}
+                    </p>
+                ))}
+            </div>
+
+            {!readOnly && (
+                <>
+                    <div className="flex flex-wrap gap-1 mb-2">
+                        {QUICK_REACTIONS.map(reaction => (
+                            <button
+                                key={reaction}
+                                onClick={() => handleSendReaction(reaction)}
+                                className="px-2 py-0.5 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 text-xs"
+                            >
+                                {reaction}
+                            </button>
+                        ))}
+                    </div>
+                    <form onSubmit={handleSubmit} className="flex space-x-1">
+                        <input
+                            type="text"
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            maxLength={CHAT_MAX_LENGTH}
+                            placeholder="Say something..."
+                            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-gray-800 placeholder-gray-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!draft.trim()}
+                            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 text-xs"
+                        >
+                            Send
+                        </button>
+                    </form>
+                    {chatError && <p className="mt-1 text-red-600 text-xs">{chatError}</p>}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ChatPanel;
@@ -1,8 +1,14 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Player, GameState, Board } from '@/types'; // <-- Import types
-import { io, Socket } from "socket.io-client";
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { AiDifficulty, BoardConfig, GameCloseReason, HistoryEntry, LobbyUpdate, Player, PlayerColor, PlayerGameView, PlayerProfile, SabotageRules, TimeControl } from '@/types'; // <-- Import types
+import { createEmptyBoard, canSelectSabotage, DEFAULT_BOARD_CONFIG, DEFAULT_SABOTAGE_RULES } from '@/lib/rules';
+import { formatGameRecord } from '@/lib/notation';
+import { summarizeGame } from '@/lib/gameSummary';
+import { describeGameStatus } from '@/lib/gameStatus';
+import { GameSocket } from '@/lib/protocol';
+import { clearPlayer, clearSession, loadPlayer, loadSession, savePlayer, saveSession } from '@/lib/storage';
+import { io } from "socket.io-client";
 import { Quicksand } from 'next/font/google';
 import bgImage from '../../assets/bg.png'; // Import the background image
 
@@ -10,33 +16,58 @@ import bgImage from '../../assets/bg.png'; // Import the background image
 import GameBoard from './GameBoard';
 import GameInfo from './GameInfo';
 import InitialScreen from './InitialScreen';
+import HotSeatGame from './HotSeatGame';
 import GameControls from './GameControls';
 import DecorativePieces from './DecorativePieces';
+import ReplayViewer from './ReplayViewer';
+import ChatPanel from './ChatPanel';
+import RulesDisplay from './RulesDisplay';
+import SabotageTimeline from './SabotageTimeline';
 
 // Instantiate the font
 const quicksand = Quicksand({ subsets: ['latin'], weight: ['400', '700'] });
 
 // --- Removed Server Type Duplication --- 
 
-const ROWS = 6;
-const COLS = 7;
-
-const createEmptyBoard = (): Board => {
-    return Array(ROWS).fill(null).map(() => Array(COLS).fill(null));
+// Shown when the server closes the game we're in or watching
+const GAME_CLOSED_MESSAGES: { [R in GameCloseReason]: string } = {
+    player_left: "A player left, so this game has ended.",
+    unjoined: "Nobody joined this game in time, so it was closed.",
+    idle: "This game was closed after a long time without moves.",
+    finished: "This finished game was closed.",
 };
 
 const Connect4: React.FC = () => {
     // --- State Management --- 
-    const [gameState, setGameState] = useState<GameState | null>(null); // Holds the entire game state from server
-    const [socket, setSocket] = useState<Socket | null>(null);
+    const [gameState, setGameState] = useState<PlayerGameView | null>(null); // Holds our (redacted) view of the game from server
+    const [socket, setSocket] = useState<GameSocket | null>(null);
     const [message, setMessage] = useState<string | React.ReactNode>("Connecting...");
     const [gameId, setGameId] = useState<string | null>(null);
     const [myPlayerColor, setMyPlayerColor] = useState<Player | null>(null); // <-- Fixed type
     const [joinGameIdInput, setJoinGameIdInput] = useState<string>("");
+    const [computerDifficulty, setComputerDifficulty] = useState<AiDifficulty>('medium');
+    const [computerGameColor, setComputerGameColor] = useState<PlayerColor>('red'); // Our color against the computer
+    const [boardConfig, setBoardConfig] = useState<BoardConfig>(DEFAULT_BOARD_CONFIG); // Board for games we create
+    const [timeControl, setTimeControl] = useState<TimeControl | null>(null); // Clock for games we create (null = untimed)
+    const [bestOf, setBestOf] = useState<number | null>(null); // Match length for games we create (null = single game)
+    const [sabotageRules, setSabotageRules] = useState<SabotageRules>(DEFAULT_SABOTAGE_RULES); // Rule variant for games we create
     const [joinError, setJoinError] = useState<string | null>(null);
     const [opponentLeftMessage, setOpponentLeftMessage] = useState<string | null>(null);
     const [showRules, setShowRules] = useState<boolean>(false);
     const [isMounted, setIsMounted] = useState(false);
+    const [isReconnecting, setIsReconnecting] = useState<boolean>(false);
+    const [isSpectating, setIsSpectating] = useState<boolean>(false);
+    const [showReplay, setShowReplay] = useState<boolean>(false);
+    const [showImport, setShowImport] = useState<boolean>(false);
+    const [importedRecord, setImportedRecord] = useState<{ history: HistoryEntry[], config: BoardConfig, rules: SabotageRules } | null>(null); // Record opened from "Import Game"
+    const [recordCopied, setRecordCopied] = useState<boolean>(false);
+    const [isLocalGame, setIsLocalGame] = useState<boolean>(false); // Pass & Play, no server involved
+    const [lobby, setLobby] = useState<LobbyUpdate | null>(null); // Open games, pushed by the server while we're on the start screen
+    const [isInQuickMatch, setIsInQuickMatch] = useState<boolean>(false); // Waiting in the quick match queue
+    const [chatError, setChatError] = useState<string | null>(null);
+    const [profile, setProfile] = useState<PlayerProfile | null>(null); // Our registered player, if any
+    const [registerError, setRegisterError] = useState<string | null>(null);
+    const spectatingGameIdRef = useRef<string | null>(null); // Read by socket handlers to resume watching after a reconnect
 
     // --- Constant Data --- 
     const rulesText = `
@@ -61,6 +92,9 @@ You're probably familiar with the game connect 4. This game is that game, but my
     }, []);
 
     const resetClientState = useCallback(() => {
+        clearSession();
+        spectatingGameIdRef.current = null;
+        setIsSpectating(false);
         setGameState(null);
         setGameId(null);
         setMyPlayerColor(null);
@@ -72,25 +106,101 @@ You're probably familiar with the game connect 4. This game is that game, but my
     useEffect(() => {
         const socketUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3001";
         console.log(`Connecting to server at: ${socketUrl}`);
-        const newSocket = io(socketUrl);
+        const newSocket: GameSocket = io(socketUrl);
         setSocket(newSocket);
 
         newSocket.on("connect", () => {
             console.log("Connected to server with ID:", newSocket.id);
-            setMessage("Connected! Create or Join a Game.");
+            setIsReconnecting(false);
+
+            // Identify first, so any seat we take or retake is tied to our rated profile
+            const storedPlayer = loadPlayer();
+            if (storedPlayer) newSocket.emit('identify_player', storedPlayer);
+
+            // Fresh page load or socket reconnect: try to take our seat back
+            const session = loadSession();
+            if (session) {
+                console.log(`Emitting rejoin_game: ${session.gameId}`);
+                newSocket.emit('rejoin_game', session);
+                setMessage("Rejoining game...");
+            } else if (spectatingGameIdRef.current) {
+                console.log(`Emitting spectate_game: ${spectatingGameIdRef.current}`);
+                newSocket.emit('spectate_game', spectatingGameIdRef.current);
+            } else {
+                setMessage("Connected! Create or Join a Game.");
+            }
+        });
+
+        newSocket.on('disconnect', () => {
+            console.log("Disconnected from server.");
+            setIsInQuickMatch(false); // The server drops us from the queue
+            if (loadSession()) setIsReconnecting(true);
         });
 
-        newSocket.on('game_created', ({ gameId: newGameId, playerColor }) => {
+        newSocket.on('game_created', ({ gameId: newGameId, playerColor, sessionToken }) => {
             console.log(`Game created: ${newGameId}, I am ${playerColor}`);
+            saveSession({ gameId: newGameId, sessionToken });
             setGameId(newGameId);
             setMyPlayerColor(playerColor);
+            setIsInQuickMatch(false); // Creating a game takes us out of the queue
         });
 
-        newSocket.on('game_joined', ({ gameId: joinedGameId, playerColor }) => {
+        newSocket.on('game_joined', ({ gameId: joinedGameId, playerColor, sessionToken }) => {
             console.log(`Successfully joined game ${joinedGameId} as ${playerColor}`);
+            saveSession({ gameId: joinedGameId, sessionToken });
             setGameId(joinedGameId);
             setMyPlayerColor(playerColor);
             setJoinError(null);
+            setIsInQuickMatch(false);
+        });
+
+        newSocket.on('lobby_update', (update: LobbyUpdate) => {
+            setLobby(update);
+        });
+
+        newSocket.on('quick_match_queued', () => {
+            console.log("Waiting for a quick match...");
+            setIsInQuickMatch(true);
+        });
+
+        newSocket.on('quick_match_cancelled', () => {
+            setIsInQuickMatch(false);
+        });
+
+        newSocket.on('match_found', ({ gameId: matchedGameId, playerColor, sessionToken }) => {
+            console.log(`Quick match found: game ${matchedGameId}, I am ${playerColor}`);
+            saveSession({ gameId: matchedGameId, sessionToken });
+            setGameId(matchedGameId);
+            setMyPlayerColor(playerColor);
+            setJoinError(null);
+            setIsInQuickMatch(false);
+        });
+
+        newSocket.on('spectate_joined', ({ gameId: watchedGameId }) => {
+            console.log(`Spectating game ${watchedGameId}`);
+            spectatingGameIdRef.current = watchedGameId;
+            setIsSpectating(true);
+            setGameId(watchedGameId);
+            setMyPlayerColor(null);
+            setJoinError(null);
+        });
+
+        newSocket.on('game_rejoined', ({ gameId: rejoinedGameId, playerColor }) => {
+            console.log(`Rejoined game ${rejoinedGameId} as ${playerColor}`);
+            setGameId(rejoinedGameId);
+            setMyPlayerColor(playerColor);
+        });
+
+        newSocket.on('rejoin_error', ({ message: errorMessage }) => {
+            console.error("Rejoin error:", errorMessage);
+            resetClientState();
+            setMessage(`Could not rejoin your game: ${errorMessage}`);
+        });
+
+        // A request the server refused (a move out of turn, bad game settings, ...)
+        newSocket.on('game_error', ({ code, message: errorMessage }) => {
+            console.error(`Game error (${code}):`, errorMessage);
+            setMessage(<span className="text-red-600 font-semibold">{errorMessage}</span>);
         });
 
         newSocket.on('join_error', ({ message: errorMessage }) => {
@@ -99,29 +209,56 @@ You're probably familiar with the game connect 4. This game is that game, but my
             setMessage("Failed to join game. See error below.");
         });
 
-        newSocket.on('game_update', (newGameState: GameState) => {
+        newSocket.on('game_update', (newGameState: PlayerGameView) => {
             console.log("Received game update:", newGameState);
             setGameState(newGameState);
+            if (newGameState.gamePhase !== 'game_over') setShowReplay(false); // e.g. a rematch started
+
+            // The server tells us which seat this view was built for (colors swap on rematch)
+            const myNewColor = newGameState.viewerColor;
+            setMyPlayerColor(prevColor => {
+                if (myNewColor !== prevColor) {
+                    console.log(`My color changed from ${prevColor} to ${myNewColor}`);
+                    return myNewColor;
+                }
+                return prevColor;
+            });
+        });
 
-            // Read latest player color inside the event handler if needed
-            // This check remains correct as it uses the newGameState
-            if (newSocket.id && newGameState.players) {
-                const myNewColor = newGameState.players[newSocket.id] || null;
-                // Use a functional update if comparing against the *absolute* latest state is critical
-                // or rely on the fact that this listener closes over the `myPlayerColor` from its definition.
-                // For this specific check, the closed-over value is likely sufficient.
-                setMyPlayerColor(prevColor => {
-                    if (myNewColor !== prevColor) {
-                        console.log(`My color changed from ${prevColor} to ${myNewColor}`);
-                        return myNewColor;
-                    }
-                    return prevColor;
-                });
-            }
+        newSocket.on('player_registered', ({ token, profile: newProfile }: { token: string, profile: PlayerProfile }) => {
+            console.log(`Registered as ${newProfile.nickname}`);
+            savePlayer({ playerId: newProfile.playerId, token });
+            setProfile(newProfile);
+            setRegisterError(null);
+        });
+
+        newSocket.on('player_identified', ({ profile: myProfile }: { profile: PlayerProfile }) => {
+            setProfile(myProfile);
+        });
+
+        newSocket.on('identity_error', ({ message: errorMessage }) => {
+            console.error("Identity error:", errorMessage);
+            clearPlayer(); // The stored profile is gone; play as a guest
+            setProfile(null);
+        });
+
+        newSocket.on('register_error', ({ message: errorMessage }) => {
+            setRegisterError(errorMessage);
+        });
+
+        newSocket.on('chat_error', ({ message: errorMessage }) => {
+            console.log("Chat error:", errorMessage);
+            setChatError(errorMessage);
+            setTimeout(() => setChatError(null), 3000);
         });
 
         newSocket.on('connect_error', (err) => {
             console.error("Connection error:", err);
+            if (loadSession()) {
+                // Keep the game on screen; socket.io keeps retrying and we rejoin on connect
+                setIsReconnecting(true);
+                return;
+            }
             setMessage("Failed to connect to server.");
             setGameState(null);
             setGameId(null);
@@ -136,6 +273,15 @@ You're probably familiar with the game connect 4. This game is that game, but my
             }, 4000);
         });
 
+        newSocket.on('game_closed', ({ reason }) => {
+            console.log(`The game was closed (${reason}).`);
+            setOpponentLeftMessage(GAME_CLOSED_MESSAGES[reason]);
+            setTimeout(() => {
+                resetClientState();
+                setOpponentLeftMessage(null);
+            }, 4000);
+        });
+
         return () => {
             console.log("Disconnecting socket...");
             newSocket.disconnect();
@@ -143,9 +289,32 @@ You're probably familiar with the game connect 4. This game is that game, but my
     }, [resetClientState]);
 
 
+    // Watch the lobby while we're on the start screen (again after every reconnect)
+    useEffect(() => {
+        if (!socket || gameId || isLocalGame) return;
+        const subscribe = () => socket.emit('lobby_subscribe');
+        if (socket.connected) subscribe();
+        socket.on('connect', subscribe);
+        return () => {
+            socket.off('connect', subscribe);
+            socket.emit('lobby_unsubscribe');
+        };
+    }, [socket, gameId, isLocalGame]);
+
+    // Refresh our rating whenever we're back on the start screen
+    useEffect(() => {
+        const storedPlayer = loadPlayer();
+        if (socket?.connected && !gameId && storedPlayer) socket.emit('identify_player', storedPlayer);
+    }, [socket, gameId]);
+
     const updateMessage = useCallback(() => {
         if (opponentLeftMessage) return; // Don't update message if opponent left message is showing
 
+        if (isReconnecting && gameId) {
+            setMessage(<span className="text-orange-600 font-semibold">Connection lost. Reconnecting...</span>);
+            return;
+        }
+
         if (!gameState) {
             // Handle states before gameState is populated (connecting, initial, waiting)
             if (gameId && !gameState) { // We have a gameId but no state yet (likely waiting)
@@ -164,14 +333,18 @@ You're probably familiar with the game connect 4. This game is that game, but my
             return;
         }
 
+        const colorClass = (color: PlayerColor) => `font-semibold ${color === 'red' ? 'text-red-600' : 'text-yellow-600'}`;
+        const colorLabel = (color: PlayerColor) => color === 'red' ? 'Red' : 'Yellow';
+        const status = describeGameStatus(gameState, isSpectating);
         let newMessage: string | React.ReactNode = "";
-        const { gamePhase, currentPlayer, winner, isDraw, overlapJustTriggered, pendingReselect } = gameState;
-        const playerString = currentPlayer === 'red' ? "Red" : "Yellow";
-        const myTurn = currentPlayer === myPlayerColor;
-        const iNeedToReselect = (myPlayerColor === 'red' && pendingReselect?.red) || (myPlayerColor === 'yellow' && pendingReselect?.yellow);
-
-        switch (gamePhase) {
-            case 'waiting_for_opponent': // Should be covered by !gameState block, but keep for robustness
+        switch (status.kind) {
+            case 'text':
+                newMessage = status.text;
+                break;
+            case 'opponent_disconnected':
+                newMessage = <span className="text-orange-600 font-semibold">Opponent disconnected, waiting for them to reconnect...</span>;
+                break;
+            case 'share_game_id':
                 newMessage = (
                     <div className="flex flex-col items-center text-center">
                         <span>Game ID: <span className="font-mono bg-gray-200 px-1 rounded">{gameId}</span></span>
@@ -180,51 +353,28 @@ You're probably familiar with the game connect 4. This game is that game, but my
                     </div>
                 );
                 break;
-            case 'init_select_red':
-                newMessage = myPlayerColor === 'red' ? "Your turn (Red): Select your Sabotage Space" : "Waiting for Red to select Sabotage Space";
-                break;
-            case 'init_select_yellow':
-                newMessage = myPlayerColor === 'yellow' ? "Your turn (Yellow): Select your Sabotage Space" : "Waiting for Yellow to select Sabotage Space";
-                break;
-            case 'sabotage_select_red':
-                const redMsgPrefix = myPlayerColor === 'red' ? "Your turn (Red):" : "Waiting for Red:";
-                if (overlapJustTriggered) newMessage = `${redMsgPrefix} Overlap triggered! Select new Sabotage.`; // Simplified logic, server state dictates who selects
-                else newMessage = `${redMsgPrefix} Select a NEW Sabotage Space.`; // General message
+            case 'your_turn':
+                newMessage = status.reselect ? (
+                    <div className="flex flex-col items-center text-center">
+                        <span>Your turn (<span className={colorClass(status.color)}>{colorLabel(status.color)}</span>):</span>
+                        <span className="text-orange-600 font-bold">Select a NEW Sabotage Space</span>
+                    </div>
+                ) : (
+                    <>Your turn (<span className={colorClass(status.color)}>{colorLabel(status.color)}</span>)</>
+                );
                 break;
-            case 'sabotage_select_yellow':
-                const yellowMsgPrefix = myPlayerColor === 'yellow' ? "Your turn (Yellow):" : "Waiting for Yellow:";
-                if (overlapJustTriggered) newMessage = `${yellowMsgPrefix} Overlap triggered! Select new Sabotage.`;
-                else newMessage = `${yellowMsgPrefix} Select a NEW Sabotage Space.`;
+            case 'waiting_for':
+                newMessage = <span>Waiting for <span className={colorClass(status.color)}>{colorLabel(status.color)}</span></span>;
                 break;
-            case 'playing':
-                if (myTurn) {
-                    if (iNeedToReselect) {
-                        newMessage = (
-                            <div className="flex flex-col items-center text-center">
-                                <span>Your turn (<span className={`font-semibold ${myPlayerColor === 'red' ? 'text-red-600' : 'text-yellow-600'}`}>{myPlayerColor === 'red' ? 'Red' : 'Yellow'}</span>):</span>
-                                <span className="text-orange-600 font-bold">Select a NEW Sabotage Space</span>
-                            </div>
-                        );
-                    } else {
-                        newMessage = <>Your turn (<span className={`font-semibold ${myPlayerColor === 'red' ? 'text-red-600' : 'text-yellow-600'}`}>{myPlayerColor === 'red' ? 'Red' : 'Yellow'}</span>)</>;
-                    }
-                } else {
-                    newMessage = (
-                        <span>
-                            Waiting for <span className={`font-semibold ${currentPlayer === 'red' ? 'text-red-600' : 'text-yellow-600'}`}>{playerString}</span>
-                        </span>
-                    );
-                }
+            case 'won':
+                newMessage = <span className="text-green-700 font-bold">{status.text}</span>;
                 break;
-            case 'game_over':
-                if (winner) newMessage = <span className="text-green-700 font-bold">Player {winner === 'red' ? 'Red' : 'Yellow'} Wins! {(winner === myPlayerColor) ? " (You)" : " (Opponent)"}</span>;
-                else if (isDraw) newMessage = <span className="text-gray-700 font-bold">It&apos;s a Draw!</span>;
-                else newMessage = "Game Over";
+            case 'drawn':
+                newMessage = <span className="text-gray-700 font-bold">{status.text}</span>;
                 break;
-            default: newMessage = ""; // Should not happen
         }
         setMessage(newMessage);
-    }, [gameState, gameId, myPlayerColor, socket?.connected, opponentLeftMessage]); // Added socket.connected and opponentLeftMessage
+    }, [gameState, gameId, socket?.connected, opponentLeftMessage, isReconnecting, isSpectating]); // Added socket.connected and opponentLeftMessage
 
     useEffect(() => {
         updateMessage();
@@ -234,10 +384,18 @@ You're probably familiar with the game connect 4. This game is that game, but my
     const handleCreateGame = useCallback(() => {
         if (socket) {
             console.log("Emitting create_game");
-            socket.emit('create_game');
+            socket.emit('create_game', { board: boardConfig, timeControl, rules: sabotageRules, bestOf: bestOf ?? undefined });
             setMessage("Creating game...");
         }
-    }, [socket]);
+    }, [socket, boardConfig, timeControl, sabotageRules, bestOf]);
+
+    const handleCreateComputerGame = useCallback(() => {
+        if (socket) {
+            console.log(`Emitting create_game vs computer (${computerDifficulty}, playing ${computerGameColor})`);
+            socket.emit('create_game', { vsComputer: { difficulty: computerDifficulty, humanColor: computerGameColor }, board: boardConfig, timeControl, rules: sabotageRules, bestOf: bestOf ?? undefined });
+            setMessage("Creating game...");
+        }
+    }, [socket, computerDifficulty, computerGameColor, boardConfig, timeControl, sabotageRules, bestOf]);
 
     const handleJoinGame = useCallback(() => {
         if (socket && joinGameIdInput.trim()) {
@@ -249,6 +407,46 @@ You're probably familiar with the game connect 4. This game is that game, but my
         }
     }, [socket, joinGameIdInput]);
 
+    const handleRegister = useCallback((nickname: string) => {
+        if (socket) {
+            console.log(`Emitting register_player: ${nickname}`);
+            socket.emit('register_player', { nickname });
+        }
+    }, [socket]);
+
+    const handleJoinOpenGame = useCallback((openGameId: string) => {
+        if (socket) {
+            console.log(`Emitting join_game from the lobby: ${openGameId}`);
+            socket.emit('join_game', openGameId);
+            setMessage(`Joining game ${openGameId}...`);
+            setJoinError(null);
+        }
+    }, [socket]);
+
+    const handleQuickMatch = useCallback(() => {
+        if (socket) {
+            console.log("Emitting quick_match");
+            socket.emit('quick_match', { board: boardConfig, timeControl, rules: sabotageRules });
+        }
+    }, [socket, boardConfig, timeControl, sabotageRules]);
+
+    const handleCancelQuickMatch = useCallback(() => {
+        if (socket) {
+            console.log("Emitting cancel_quick_match");
+            socket.emit('cancel_quick_match');
+        }
+    }, [socket]);
+
+    const handleSpectateGame = useCallback(() => {
+        if (socket && joinGameIdInput.trim()) {
+            const trimmedId = joinGameIdInput.trim();
+            console.log(`Emitting spectate_game: ${trimmedId}`);
+            socket.emit('spectate_game', trimmedId);
+            setMessage(`Opening game ${trimmedId}...`);
+            setJoinError(null);
+        }
+    }, [socket, joinGameIdInput]);
+
     const handleRequestRematch = useCallback(() => {
         if (socket && gameId && gameState?.gamePhase === 'game_over') {
             console.log(`Emitting request_rematch for game ${gameId}`);
@@ -256,33 +454,26 @@ You're probably familiar with the game connect 4. This game is that game, but my
         }
     }, [socket, gameId, gameState]);
 
+    // Resigning, draw offers and takebacks; the server checks they're allowed right now
+    const emitGameRequest = useCallback((event: 'resign' | 'offer_draw' | 'accept_draw' | 'request_takeback' | 'accept_takeback') => {
+        if (socket && gameId) {
+            console.log(`Emitting ${event} for game ${gameId}`);
+            socket.emit(event, { gameId });
+        }
+    }, [socket, gameId]);
+
     const handleSabotageSelectionClick = useCallback((row: number, col: number) => {
         if (!socket || !socket.id || !gameId || !gameState) return;
 
-        const playerColor = gameState.players[socket.id];
+        const playerColor = gameState.viewerColor;
         if (!playerColor) return;
 
-        const currentPhase = gameState.gamePhase;
-        const myTurn = gameState.currentPlayer === playerColor;
-        const iNeedToReselect = (playerColor === 'red' && gameState.pendingReselect.red) || (playerColor === 'yellow' && gameState.pendingReselect.yellow);
-
-        let canSelect = false;
-        if (myTurn) {
-            if ((currentPhase === 'init_select_red' || currentPhase === 'sabotage_select_red') && playerColor === 'red') {
-                canSelect = true;
-            } else if ((currentPhase === 'init_select_yellow' || currentPhase === 'sabotage_select_yellow') && playerColor === 'yellow') {
-                canSelect = true;
-            } else if (currentPhase === 'playing' && iNeedToReselect) {
-                canSelect = true;
-            }
-        }
-
-        if (!canSelect) {
+        if (!canSelectSabotage(gameState.gamePhase, gameState.currentPlayer, playerColor, gameState.myPendingReselect)) {
             console.log("Client validation: Not your turn to select sabotage.");
             return;
         }
 
-        if (row < 0 || row >= ROWS || col < 0 || col >= COLS) {
+        if (row < 0 || row >= gameState.config.rows || col < 0 || col >= gameState.config.cols) {
             console.error("Invalid coordinates selected on client.");
             return;
         }
@@ -295,11 +486,11 @@ You're probably familiar with the game connect 4. This game is that game, but my
     const handleColumnClick = useCallback((colIndex: number) => {
         if (!socket || !socket.id || !gameId || !gameState) return;
 
-        const playerColor = gameState.players[socket.id];
+        const playerColor = gameState.viewerColor;
         if (!playerColor) return;
 
         const myTurn = gameState.currentPlayer === playerColor;
-        const iNeedToReselect = (playerColor === 'red' && gameState.pendingReselect.red) || (playerColor === 'yellow' && gameState.pendingReselect.yellow);
+        const iNeedToReselect = gameState.myPendingReselect;
 
         if (gameState.gamePhase === 'playing' && myTurn && !iNeedToReselect) {
             console.log(`Emitting make_move: ${colIndex}`);
@@ -311,6 +502,33 @@ You're probably familiar with the game connect 4. This game is that game, but my
         }
     }, [socket, gameId, gameState]);
 
+    const handleSendChat = useCallback((text: string) => {
+        if (socket && gameId) {
+            socket.emit('send_chat', { gameId, text });
+        }
+    }, [socket, gameId]);
+
+    const handleSendReaction = useCallback((reaction: string) => {
+        if (socket && gameId) {
+            socket.emit('send_reaction', { gameId, reaction });
+        }
+    }, [socket, gameId]);
+
+    const handleCopyGameRecord = useCallback(() => {
+        if (!gameState?.history) return;
+        navigator.clipboard.writeText(formatGameRecord(gameState.history, {}, gameState.config, gameState.rules))
+            .then(() => {
+                setRecordCopied(true);
+                setTimeout(() => setRecordCopied(false), 2000);
+            })
+            .catch(err => console.error("Failed to copy game record:", err));
+    }, [gameState]);
+
+    const handleOpenRecord = useCallback((history: HistoryEntry[], config: BoardConfig, rules: SabotageRules) => {
+        setShowImport(false);
+        setImportedRecord({ history, config, rules });
+    }, []);
+
     const handleLeaveGame = useCallback(() => {
         if (socket && gameId) {
             console.log(`Emitting leave_game for game ${gameId}`);
@@ -320,16 +538,14 @@ You're probably familiar with the game connect 4. This game is that game, but my
     }, [socket, gameId, resetClientState]);
 
     // --- Derived State for Rendering --- 
-    const board = gameState?.board || createEmptyBoard();
+    const board = gameState?.board || createEmptyBoard(boardConfig);
     const gamePhase = gameState?.gamePhase ?? 'initial';
     const myTurn = gameState?.currentPlayer === myPlayerColor;
-    const iNeedToReselect = !!(myPlayerColor && gameState && (
-        (myPlayerColor === 'red' && gameState.pendingReselect.red) ||
-        (myPlayerColor === 'yellow' && gameState.pendingReselect.yellow)
-    ));
+    const iNeedToReselect = !!(myPlayerColor && gameState?.myPendingReselect);
 
     // Determine button text and disabled state based on rematch requests
-    let playAgainButtonText = "Play Again?";
+    // In a match, the rematch is the next game, or a new match once this one is decided
+    let playAgainButtonText = !gameState?.series ? "Play Again?" : gameState.series.winner ? "New Match?" : "Next Game";
     let playAgainDisabled = false;
 
     // Ensure these default to false if gameState or myPlayerColor is null
@@ -355,18 +571,16 @@ You're probably familiar with the game connect 4. This game is that game, but my
         }
     }
 
-    const isSelectionPhase = gamePhase.includes('select');
-
-    const myTurnToSelect = !!(myTurn && (
-        (isSelectionPhase && (
-            ((gamePhase === 'init_select_red' || gamePhase === 'sabotage_select_red') && myPlayerColor === 'red') ||
-            ((gamePhase === 'init_select_yellow' || gamePhase === 'sabotage_select_yellow') && myPlayerColor === 'yellow')
-        )) ||
-        (gamePhase === 'playing' && iNeedToReselect)
-    ));
+    const myTurnToSelect = !!(myPlayerColor && gameState &&
+        canSelectSabotage(gameState.gamePhase, gameState.currentPlayer, myPlayerColor, iNeedToReselect));
 
     const myTurnToPlay = !!(myTurn && gamePhase === 'playing' && !iNeedToReselect);
 
+    // The full history only arrives at game_over, so this is what the result screen explains
+    const sabotageSummary = gamePhase === 'game_over' && gameState?.history
+        ? summarizeGame(gameState.history, gameState.board, gameState.config)
+        : null;
+
     // --- Render Logic --- 
     return (
         <div
@@ -388,43 +602,143 @@ You're probably familiar with the game connect 4. This game is that game, but my
             </h1>
 
             {/* Initial Screen (Create/Join/Rules) */}
-            {gamePhase === 'initial' && !gameId && !opponentLeftMessage && (
+            {gamePhase === 'initial' && !gameId && !opponentLeftMessage && !importedRecord && !isLocalGame && (
                 <InitialScreen
                     socket={socket}
                     gameId={gameId}
                     handleCreateGame={handleCreateGame}
                     handleJoinGame={handleJoinGame}
+                    handleSpectateGame={handleSpectateGame}
+                    handleJoinOpenGame={handleJoinOpenGame}
+                    handleQuickMatch={handleQuickMatch}
+                    handleCancelQuickMatch={handleCancelQuickMatch}
+                    isInQuickMatch={isInQuickMatch}
+                    lobby={lobby}
+                    profile={profile}
+                    handleRegister={handleRegister}
+                    registerError={registerError}
+                    handleCreateComputerGame={handleCreateComputerGame}
+                    handleStartLocalGame={() => setIsLocalGame(true)}
+                    computerDifficulty={computerDifficulty}
+                    setComputerDifficulty={setComputerDifficulty}
+                    computerGameColor={computerGameColor}
+                    setComputerGameColor={setComputerGameColor}
+                    boardConfig={boardConfig}
+                    setBoardConfig={setBoardConfig}
+                    timeControl={timeControl}
+                    setTimeControl={setTimeControl}
+                    bestOf={bestOf}
+                    setBestOf={setBestOf}
+                    sabotageRules={sabotageRules}
+                    setSabotageRules={setSabotageRules}
                     joinGameIdInput={joinGameIdInput}
                     setJoinGameIdInput={setJoinGameIdInput}
                     joinError={joinError}
                     showRules={showRules}
                     setShowRules={setShowRules}
                     rulesText={rulesText}
+                    showImport={showImport}
+                    setShowImport={setShowImport}
+                    handleOpenRecord={handleOpenRecord}
                 />
             )}
 
+            {/* Local Pass & Play game */}
+            {gamePhase === 'initial' && !gameId && isLocalGame && (
+                <HotSeatGame boardConfig={boardConfig} sabotageRules={sabotageRules} handleExit={() => setIsLocalGame(false)} />
+            )}
+
+            {/* Imported game record, opened in the replay viewer */}
+            {gamePhase === 'initial' && !gameId && importedRecord && (
+                <div className="relative flex flex-col items-center w-full max-w-md md:max-w-lg lg:max-w-xl z-10">
+                    <ReplayViewer
+                        history={importedRecord.history}
+                        config={importedRecord.config}
+                        rules={importedRecord.rules}
+                        onClose={() => setImportedRecord(null)}
+                    />
+                </div>
+            )}
+
             {/* Game Area (Info, Board, Controls) - Show if game exists and opponent hasn't left */}
             {(gameState || gameId) && !opponentLeftMessage && gamePhase !== 'initial' && (
-                <div className="relative flex flex-col items-center w-full max-w-md md:max-w-lg lg:max-w-xl z-10">
+                <div className="relative flex flex-col items-center w-full max-w-md md:max-w-lg lg:max-w-4xl z-10">
                     {/* Game Info Display */}
                     <GameInfo
                         message={message}
                         opponentLeftMessage={null} // Opponent left handled globally
+                        spectatorCount={gameState?.spectatorCount ?? 0}
+                        boardConfig={gameState?.config}
+                        sabotageRules={gameState?.rules}
+                        clock={gameState?.clock ?? null}
+                        identities={gameState?.identities}
+                        series={gameState?.series ?? null}
+                        gameOver={gamePhase === 'game_over'}
                     />
 
-                    {/* Game Board */}
-                    <GameBoard
-                        board={board}
-                        gameState={gameState}
-                        myPlayerColor={myPlayerColor}
-                        handleSabotageSelectionClick={handleSabotageSelectionClick}
-                        handleColumnClick={handleColumnClick}
-                        myTurnToSelect={myTurnToSelect}
-                        myTurnToPlay={myTurnToPlay}
-                    />
+                    {/* Game Board (or the replay of a finished game) with the chat beside it */}
+                    <div className="flex flex-col lg:flex-row items-center lg:items-start lg:justify-center w-full lg:space-x-4">
+                        <div className="flex flex-col items-center w-full max-w-xs sm:max-w-sm md:max-w-md lg:max-w-lg">
+                            {showReplay && gameState?.history ? (
+                                <ReplayViewer
+                                    history={gameState.history}
+                                    config={gameState.config}
+                                    rules={gameState.rules}
+                                    onClose={() => setShowReplay(false)}
+                                />
+                            ) : (
+                                <GameBoard
+                                    board={board}
+                                    gameState={gameState}
+                                    myPlayerColor={myPlayerColor}
+                                    handleSabotageSelectionClick={handleSabotageSelectionClick}
+                                    handleColumnClick={handleColumnClick}
+                                    myTurnToSelect={myTurnToSelect}
+                                    myTurnToPlay={myTurnToPlay}
+                                    readOnly={isSpectating}
+                                    revealedSabotage={gameState?.revealedSabotage}
+                                    flippedCells={sabotageSummary?.flippedCells}
+                                    winningLine={sabotageSummary?.winningLine}
+                                />
+                            )}
+                        </div>
+                        {gameState && gamePhase !== 'waiting_for_opponent' && (
+                            <ChatPanel
+                                messages={gameState.chat}
+                                myPlayerColor={isSpectating ? null : myPlayerColor}
+                                handleSendChat={handleSendChat}
+                                handleSendReaction={handleSendReaction}
+                                chatError={chatError}
+                            />
+                        )}
+                    </div>
+
+                    {sabotageSummary && gameState && !showReplay && (
+                        <SabotageTimeline summary={sabotageSummary} config={gameState.config} winner={gameState.winner} />
+                    )}
+
+                    {/* --- Replay and record buttons once the game is over --- */}
+                    {gamePhase === 'game_over' && gameState?.history && (
+                        <div className="flex space-x-2 mb-2">
+                            {!showReplay && (
+                                <button
+                                    onClick={() => setShowReplay(true)}
+                                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition duration-200"
+                                >
+                                    Watch Replay
+                                </button>
+                            )}
+                            <button
+                                onClick={handleCopyGameRecord}
+                                className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition duration-200"
+                            >
+                                {recordCopied ? "Copied!" : "Copy Game Record"}
+                            </button>
+                        </div>
+                    )}
 
                     {/* --- Add Leave button specifically for waiting phase --- */}
-                    {gamePhase === 'waiting_for_opponent' && (
+                    {gamePhase === 'waiting_for_opponent' && !isSpectating && (
                          <button
                              onClick={handleLeaveGame}
                              className="mt-4 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 transition duration-200"
@@ -442,10 +756,23 @@ You're probably familiar with the game connect 4. This game is that game, but my
                         playAgainDisabled={playAgainDisabled}
                         iRequested={iRequested}
                         opponentRequested={opponentRequested}
+                        isSpectator={isSpectating}
+                        myPlayerColor={myPlayerColor}
+                        isVsComputer={!!gameState?.computer}
+                        drawOfferedBy={gameState?.drawOfferedBy ?? null}
+                        takebackRequestedBy={gameState?.takebackRequestedBy ?? null}
+                        canRequestTakeback={!!gameState?.canRequestTakeback}
+                        handleResign={() => emitGameRequest('resign')}
+                        handleOfferDraw={() => emitGameRequest('offer_draw')}
+                        handleAcceptDraw={() => emitGameRequest('accept_draw')}
+                        handleRequestTakeback={() => emitGameRequest('request_takeback')}
+                        handleAcceptTakeback={() => emitGameRequest('accept_takeback')}
+                        tournament={gameState?.tournament ?? null}
+                        series={gameState?.series ?? null}
                     />
 
                     {/* --- Add Leave button specifically for game over phase --- */}
-                    {gamePhase === 'game_over' && (
+                    {gamePhase === 'game_over' && !isSpectating && (
                         <button
                             onClick={handleLeaveGame}
                             className="mt-2 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition duration-200"
@@ -453,6 +780,22 @@ You're probably familiar with the game connect 4. This game is that game, but my
                             Leave Game
                         </button>
                     )}
+
+                    {/* Rules, with the variant this game is played under */}
+                    {gameState && !showRules && (
+                        <button
+                            onClick={() => setShowRules(true)}
+                            className="mt-2 px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 text-xs"
+                        >
+                            Rules
+                        </button>
+                    )}
+                    <RulesDisplay
+                        rulesText={rulesText}
+                        showRules={showRules && !!gameState}
+                        setShowRules={setShowRules}
+                        sabotageRules={gameState?.rules}
+                    />
                 </div>
             )}
 
@@ -1,9 +1,6 @@
 import React from 'react';
-import { Player, GameState } from '@/types';
-
-// Remove unused constants
-// const ROWS = 6;
-// const COLS = 7;
+import { Cell, Player, PlayerGameView, SabotageSpot, TriggeredSpot } from '@/types';
+import { hasSpotAt } from '@/lib/rules';
 
 // Helper function
 const getCellClass = (player: Player | null) => {
@@ -14,12 +11,17 @@ const getCellClass = (player: Player | null) => {
 
 interface GameBoardProps {
     board: (Player | null)[][];
-    gameState: GameState | null;
+    gameState: PlayerGameView | null;
     myPlayerColor: Player | null;
     handleSabotageSelectionClick: (row: number, col: number) => void;
     handleColumnClick: (col: number) => void;
     myTurnToSelect: boolean;
     myTurnToPlay: boolean;
+    readOnly?: boolean; // Spectators see the board but can't interact with it
+    revealedSabotage?: { red: SabotageSpot[], yellow: SabotageSpot[] } | null; // Outline every spot (replays)
+    triggeredSpots?: TriggeredSpot[]; // Spots already landed on (defaults to the ones in gameState)
+    flippedCells?: Cell[]; // Pieces turned by sabotage, marked once the game is over
+    winningLine?: Cell[] | null;
 }
 
 const GameBoard: React.FC<GameBoardProps> = ({
@@ -29,13 +31,23 @@ const GameBoard: React.FC<GameBoardProps> = ({
     handleSabotageSelectionClick,
     handleColumnClick,
     myTurnToSelect,
-    myTurnToPlay
+    myTurnToPlay,
+    readOnly = false,
+    revealedSabotage = null,
+    triggeredSpots = gameState?.triggeredSpots ?? [],
+    flippedCells = [],
+    winningLine = null
 }) => {
 
     const gamePhase = gameState?.gamePhase;
+    // Column count varies per game, so it can't be a static Tailwind class
+    const gridStyle = { gridTemplateColumns: `repeat(${board[0]?.length ?? 0}, minmax(0, 1fr))` };
 
     return (
-        <div className="grid grid-cols-7 gap-1 sm:gap-2 bg-blue-700 p-2 sm:p-3 rounded-lg mb-4 sm:mb-6 shadow-xl border-2 sm:border-4 border-blue-800 w-full max-w-xs sm:max-w-sm md:max-w-md lg:max-w-lg">
+        <div
+            style={gridStyle}
+            className="grid gap-1 sm:gap-2 bg-blue-700 p-2 sm:p-3 rounded-lg mb-4 sm:mb-6 shadow-xl border-2 sm:border-4 border-blue-800 w-full max-w-xs sm:max-w-sm md:max-w-md lg:max-w-lg"
+        >
             {board.map((row, rowIndex) =>
                 row.map((cell, colIndex) => {
                     // Determine click handler
@@ -44,7 +56,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
                         : () => handleColumnClick(colIndex);
 
                     // Determine if interaction is disabled
-                    const isDisabled = gamePhase === 'game_over' || (!myTurnToSelect && !myTurnToPlay);
+                    const isDisabled = readOnly || gamePhase === 'game_over' || (!myTurnToSelect && !myTurnToPlay);
 
                     // Determine cursor style
                     const cursorStyle = isDisabled ? 'cursor-default' : (myTurnToSelect ? 'cursor-crosshair' : 'cursor-pointer');
@@ -57,10 +69,24 @@ const GameBoard: React.FC<GameBoardProps> = ({
                     // Hover effects for playing
                     const playHoverClass = myTurnToPlay ? 'hover:bg-blue-400' : '';
 
-                    // Check if this is the player's own sabotage spot
-                    const isMySabotageSpot =
-                        (myPlayerColor === 'red' && gameState?.redSabotage?.row === rowIndex && gameState?.redSabotage?.col === colIndex) ||
-                        (myPlayerColor === 'yellow' && gameState?.yellowSabotage?.row === rowIndex && gameState?.yellowSabotage?.col === colIndex);
+                    // Check if this is one of the player's own sabotage spots
+                    const isMySabotageSpot = !!myPlayerColor && hasSpotAt(gameState?.mySabotage ?? [], rowIndex, colIndex);
+
+                    // Outline revealed Sabotage Spaces, even under a piece. Triggered ones get a dashed
+                    // outline once the rules (or the end of the game) reveal them.
+                    const isRedSpot = hasSpotAt(revealedSabotage?.red ?? [], rowIndex, colIndex);
+                    const isYellowSpot = hasSpotAt(revealedSabotage?.yellow ?? [], rowIndex, colIndex);
+                    const triggeredOwners = triggeredSpots.filter(spot => spot.row === rowIndex && spot.col === colIndex).map(spot => spot.owner);
+                    let revealedClass = '';
+                    if (isRedSpot && isYellowSpot) revealedClass = 'ring-4 ring-orange-400';
+                    else if (isRedSpot) revealedClass = 'ring-4 ring-red-300';
+                    else if (isYellowSpot) revealedClass = 'ring-4 ring-yellow-300';
+                    else if (triggeredOwners.length > 1) revealedClass = 'outline-2 outline-dashed outline-orange-500 outline-offset-2';
+                    else if (triggeredOwners[0] === 'red') revealedClass = 'outline-2 outline-dashed outline-red-700 outline-offset-2';
+                    else if (triggeredOwners[0] === 'yellow') revealedClass = 'outline-2 outline-dashed outline-yellow-700 outline-offset-2';
+
+                    const isFlipped = flippedCells.some(c => c.row === rowIndex && c.col === colIndex);
+                    const isInWinningLine = !!winningLine?.some(c => c.row === rowIndex && c.col === colIndex);
 
                     // Determine inner circle class
                     let innerCircleClass = '';
@@ -81,9 +107,9 @@ const GameBoard: React.FC<GameBoardProps> = ({
                             onClick={!isDisabled ? clickHandler : undefined}
                         >
                             <div
-                                className={`w-[85%] h-[85%] rounded-full ${innerCircleClass} shadow-inner border ${cell ? (cell === 'red' ? 'border-red-700' : 'border-yellow-700') : 'border-gray-400'} transition-colors duration-150`}
+                                className={`w-[85%] h-[85%] rounded-full flex items-center justify-center ${innerCircleClass} ${revealedClass} shadow-inner ${isInWinningLine ? 'border-4 border-green-400' : `border ${cell ? (cell === 'red' ? 'border-red-700' : 'border-yellow-700') : 'border-gray-400'}`} transition-colors duration-150`}
                             >
-                                {/* Inner div */}
+                                {isFlipped && <span className="text-white font-bold text-sm sm:text-lg drop-shadow" title="Flipped by sabotage">&#8634;</span>}
                             </div>
                         </div>
                     );
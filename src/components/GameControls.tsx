@@ -1,5 +1,7 @@
-import React from 'react';
-import { GamePhase } from '@/types';
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { GamePhase, MatchSeries, Player, TournamentGameRef } from '@/types';
+import { getOpponent } from '@/lib/rules';
 
 interface GameControlsProps {
     gamePhase: GamePhase;
@@ -9,6 +11,19 @@ interface GameControlsProps {
     playAgainDisabled: boolean;
     iRequested: boolean;
     opponentRequested: boolean;
+    isSpectator?: boolean;
+    myPlayerColor: Player;
+    isVsComputer: boolean; // The computer doesn't answer draw offers or takeback requests
+    drawOfferedBy: Player;
+    takebackRequestedBy: Player;
+    canRequestTakeback: boolean;
+    handleResign: () => void;
+    handleOfferDraw: () => void;
+    handleAcceptDraw: () => void;
+    handleRequestTakeback: () => void;
+    handleAcceptTakeback: () => void;
+    tournament: TournamentGameRef | null; // Tournament games are followed by the next game of the match, not a rematch
+    series: MatchSeries | null;
 }
 
 const GameControls: React.FC<GameControlsProps> = ({
@@ -18,10 +33,107 @@ const GameControls: React.FC<GameControlsProps> = ({
     playAgainButtonText,
     playAgainDisabled,
     iRequested,
-    opponentRequested
+    opponentRequested,
+    isSpectator = false,
+    myPlayerColor,
+    isVsComputer,
+    drawOfferedBy,
+    takebackRequestedBy,
+    canRequestTakeback,
+    handleResign,
+    handleOfferDraw,
+    handleAcceptDraw,
+    handleRequestTakeback,
+    handleAcceptTakeback,
+    tournament,
+    series
 }) => {
+    const [confirmingResign, setConfirmingResign] = useState<boolean>(false);
+
+    // Spectators can only stop watching
+    if (isSpectator) {
+        return (
+            <div className="relative w-full flex justify-center mt-4 z-10">
+                <button
+                    onClick={handleLeaveGame}
+                    className="px-4 py-2 bg-gray-500 text-white rounded-lg shadow hover:bg-gray-600 transition-colors duration-200 text-sm sm:text-base font-semibold"
+                >
+                    Stop Watching
+                </button>
+            </div>
+        );
+    }
+
+    const isInProgress = gamePhase !== 'game_over' && gamePhase !== 'initial' && gamePhase !== 'waiting_for_opponent';
+    const opponentOfferedDraw = !!drawOfferedBy && drawOfferedBy !== myPlayerColor;
+    const opponentWantsTakeback = !!takebackRequestedBy && takebackRequestedBy !== myPlayerColor;
+    const smallButtonClass = "px-3 py-1 text-white rounded shadow transition-colors duration-200 text-sm font-semibold disabled:bg-gray-400";
+
     return (
         <div className="relative w-full flex flex-col items-center mt-4 z-10"> {/* Added z-index */}
+            {/* Resign, draw and takeback (shown during active game phases) */}
+            {isInProgress && (
+                <div className="flex flex-col items-center mb-3 space-y-2">
+                    {opponentOfferedDraw && (
+                        <p className="text-green-700 font-semibold">Your opponent offers a draw. Dropping a piece declines it.</p>
+                    )}
+                    {opponentWantsTakeback && (
+                        <p className="text-blue-700 font-semibold">Your opponent asks to take back their last move. Dropping a piece declines it.</p>
+                    )}
+                    <div className="flex flex-wrap justify-center gap-2">
+                        {confirmingResign ? (
+                            <>
+                                <button
+                                    onClick={() => { setConfirmingResign(false); handleResign(); }}
+                                    className={`${smallButtonClass} bg-red-700 hover:bg-red-800`}
+                                >
+                                    Really Resign
+                                </button>
+                                <button
+                                    onClick={() => setConfirmingResign(false)}
+                                    className={`${smallButtonClass} bg-gray-500 hover:bg-gray-600`}
+                                >
+                                    Keep Playing
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => setConfirmingResign(true)}
+                                className={`${smallButtonClass} bg-red-500 hover:bg-red-600`}
+                            >
+                                Resign
+                            </button>
+                        )}
+                        {!isVsComputer && (opponentOfferedDraw ? (
+                            <button onClick={handleAcceptDraw} className={`${smallButtonClass} bg-green-600 hover:bg-green-700`}>
+                                Accept Draw
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleOfferDraw}
+                                disabled={drawOfferedBy === myPlayerColor}
+                                className={`${smallButtonClass} bg-green-600 hover:bg-green-700`}
+                            >
+                                {drawOfferedBy === myPlayerColor ? "Draw Offered" : "Offer Draw"}
+                            </button>
+                        ))}
+                        {!isVsComputer && (opponentWantsTakeback ? (
+                            <button onClick={handleAcceptTakeback} className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700`}>
+                                Accept Takeback
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleRequestTakeback}
+                                disabled={!canRequestTakeback || takebackRequestedBy === myPlayerColor}
+                                className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700`}
+                            >
+                                {takebackRequestedBy === myPlayerColor ? "Takeback Requested" : "Request Takeback"}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Leave Game Button (shown during active game phases) */}
             {gamePhase !== 'game_over' && gamePhase !== 'initial' && gamePhase !== 'waiting_for_opponent' && (
                 <div className="w-full flex justify-center mb-4"> {/* Added mb-4 for spacing */}
@@ -34,9 +146,32 @@ const GameControls: React.FC<GameControlsProps> = ({
                 </div>
             )}
 
+            {/* Tournament games: the server opens the next game of the match by itself */}
+            {gamePhase === 'game_over' && tournament && (
+                <div className="text-center">
+                    {tournament.matchDecided ? (
+                        <Link
+                            href={`/tournaments/${tournament.tournamentId}`}
+                            className="inline-block px-4 py-2 sm:px-6 sm:py-3 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700 transition-colors duration-200 text-base sm:text-lg font-semibold"
+                        >
+                            Back to the Tournament
+                        </Link>
+                    ) : (
+                        <p className="text-gray-600">The next game of the match starts in a moment...</p>
+                    )}
+                </div>
+            )}
+
             {/* Rematch Section (shown only when game is over) */}
-            {gamePhase === 'game_over' && (
+            {gamePhase === 'game_over' && !tournament && (
                 <div className="text-center"> {/* Removed mt-4, handled by parent container */}
+                    {series && myPlayerColor && (
+                        <p className={`mb-2 font-semibold ${series.winner ? (series.winner === myPlayerColor ? 'text-green-700' : 'text-red-700') : 'text-gray-700'}`}>
+                            {series.winner === myPlayerColor ? "You win the match" : series.winner ? "Your opponent wins the match" : "Match score"}
+                            {` ${series.wins[myPlayerColor]}-${series.wins[getOpponent(myPlayerColor)]}`}
+                            {series.winner ? '!' : `, best of ${series.bestOf}`}
+                        </p>
+                    )}
                     <button
                         onClick={handleRequestRematch}
                         disabled={playAgainDisabled}
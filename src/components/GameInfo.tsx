@@ -1,11 +1,44 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { BoardConfig, ClockView, MatchSeries, PlayerColor, PlayerGameView, SabotageRules } from '@/types';
+import { describeSabotageRules, isClassicBoard } from '@/lib/rules';
+import { describeTimeControl, formatClockTime } from '@/lib/clock';
+import { describeSeriesGame } from '@/lib/series';
 
 interface GameInfoProps {
     message: string | React.ReactNode;
     opponentLeftMessage: string | null;
+    spectatorCount?: number;
+    boardConfig?: BoardConfig;
+    sabotageRules?: SabotageRules;
+    clock?: ClockView | null;
+    identities?: PlayerGameView['identities'];
+    series?: MatchSeries | null;
+    gameOver?: boolean;
 }
 
-const GameInfo: React.FC<GameInfoProps> = ({ message, opponentLeftMessage }) => {
+const GameInfo: React.FC<GameInfoProps> = ({ message, opponentLeftMessage, spectatorCount = 0, boardConfig, sabotageRules, clock = null, identities, series = null, gameOver = false }) => {
+    // The server sends a snapshot of the clock with every update; count the running side
+    // down locally from when that snapshot arrived.
+    const [snapshot, setSnapshot] = useState<{ clock: ClockView | null, receivedAt: number }>({ clock, receivedAt: Date.now() });
+    const [now, setNow] = useState<number>(() => Date.now());
+    if (snapshot.clock !== clock) {
+        const receivedAt = Date.now();
+        setSnapshot({ clock, receivedAt });
+        setNow(receivedAt);
+    }
+
+    useEffect(() => {
+        if (!clock?.runningFor) return;
+        const interval = setInterval(() => setNow(Date.now()), 100);
+        return () => clearInterval(interval);
+    }, [clock]);
+
+    const clockTime = (player: PlayerColor): number => {
+        if (!clock) return 0;
+        const elapsed = clock.runningFor === player ? Math.max(0, now - snapshot.receivedAt) : 0;
+        return Math.max(0, clock.remainingMs[player] - elapsed);
+    };
+
     return (
         <div className="relative flex flex-col items-center w-full max-w-md md:max-w-lg lg:max-w-xl z-10 mb-4">
             {/* Display opponent left message prominently if set */}
@@ -23,6 +56,64 @@ const GameInfo: React.FC<GameInfoProps> = ({ message, opponentLeftMessage }) =>
                     </div>
                 </div>
             )}
+
+            {/* Who's playing, with ratings for registered players */}
+            {!opponentLeftMessage && identities && (identities.red || identities.yellow) && (
+                <p className="text-sm text-gray-700 mb-1">
+                    <span className="font-semibold text-red-600">{identities.red ? `${identities.red.nickname} (${identities.red.rating})` : 'Guest'}</span>
+                    {' vs '}
+                    <span className="font-semibold text-yellow-600">{identities.yellow ? `${identities.yellow.nickname} (${identities.yellow.rating})` : 'Guest'}</span>
+                </p>
+            )}
+
+            {/* Running score of a best-of-N match (scores swap seats with the players every game) */}
+            {!opponentLeftMessage && series && (
+                <p className="text-sm text-gray-700 mb-1">
+                    <span className="font-semibold">{describeSeriesGame(series, gameOver)}:</span>{' '}
+                    <span className="font-semibold text-red-600">{identities?.red?.nickname ?? 'Red'} {series.wins.red}</span>
+                    {' - '}
+                    <span className="font-semibold text-yellow-600">{series.wins.yellow} {identities?.yellow?.nickname ?? 'Yellow'}</span>
+                    {series.draws > 0 && <span className="text-gray-500"> ({series.draws} drawn)</span>}
+                </p>
+            )}
+
+            {/* Turn clocks */}
+            {!opponentLeftMessage && clock && (
+                <div className="flex items-center space-x-3 mb-1">
+                    {(['red', 'yellow'] as const).map(player => {
+                        const ms = clockTime(player);
+                        const running = clock.runningFor === player;
+                        return (
+                            <div
+                                key={player}
+                                className={`px-3 py-1 rounded-md font-mono text-lg border-2 ${player === 'red' ? 'border-red-500' : 'border-yellow-500'} ${running ? 'bg-white shadow' : 'bg-gray-100 opacity-70'} ${running && ms < 10000 ? 'text-red-600 font-bold' : 'text-gray-800'}`}
+                            >
+                                {player === 'red' ? 'Red' : 'Yellow'} {formatClockTime(ms)}
+                            </div>
+                        );
+                    })}
+                    <span className="text-sm text-gray-600">{describeTimeControl(clock.control)}</span>
+                </div>
+            )}
+
+            {/* Remind everyone of the win condition on non-classic boards */}
+            {!opponentLeftMessage && boardConfig && !isClassicBoard(boardConfig) && (
+                <p className="text-sm text-gray-600">
+                    Connect {boardConfig.connect} on a {boardConfig.cols}x{boardConfig.rows} board
+                </p>
+            )}
+
+            {/* ... and of any rule variant in play */}
+            {!opponentLeftMessage && sabotageRules && describeSabotageRules(sabotageRules).map(line => (
+                <p key={line} className="text-sm text-purple-700">{line}</p>
+            ))}
+
+            {/* Live spectator count */}
+            {!opponentLeftMessage && spectatorCount > 0 && (
+                <p className="text-sm text-gray-600">
+                    {spectatorCount} {spectatorCount === 1 ? 'person' : 'people'} watching
+                </p>
+            )}
         </div>
     );
 };
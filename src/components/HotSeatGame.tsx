@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { BoardConfig, GameAction, GameEvent, GameState, PlayerColor, SabotageRules } from '@/types';
+import { applyAction, canSelectSabotage, getSabotage } from '@/lib/rules';
+import { buildPlayerView, createGameState } from '@/lib/gameState';
+import { summarizeGame } from '@/lib/gameSummary';
+import GameBoard from './GameBoard';
+import GameInfo from './GameInfo';
+import ReplayViewer from './ReplayViewer';
+import SabotageTimeline from './SabotageTimeline';
+
+interface HotSeatGameProps {
+    boardConfig: BoardConfig;
+    sabotageRules: SabotageRules;
+    handleExit: () => void;
+}
+
+const colorName = (player: PlayerColor) => player === 'red' ? 'Red' : 'Yellow';
+const colorClass = (player: PlayerColor) => player === 'red' ? 'text-red-600' : 'text-yellow-600';
+
+// Only what both people at the screen may know: flips and overlaps are visible on the board
+// anyway, but an own-sabotage trigger would give away where that spot was (unless the rules
+// reveal triggered spots).
+const describePublicEvents = (events: GameEvent[], rules: SabotageRules): string | null => {
+    for (const event of events) {
+        if (event.type === 'opponent_sabotage_triggered') {
+            return `${colorName(event.player)} landed on ${colorName(event.spotOwner)}'s Sabotage Space and the piece turned ${colorName(event.spotOwner)}!`;
+        }
+        if (event.type === 'overlap_triggered') {
+            return `${colorName(event.player)} found both Sabotage Spaces on the same cell! Both players pick new ones.`;
+        }
+        if (event.type === 'own_sabotage_triggered' && rules.revealTriggered) {
+            return `${colorName(event.player)} landed on their own Sabotage Space.`;
+        }
+    }
+    return null;
+};
+
+// Pass-and-play on one device, entirely in the browser. Between turns a hand-over screen
+// hides the board so neither player sees the other's Sabotage Space.
+const HotSeatGame: React.FC<HotSeatGameProps> = ({ boardConfig, sabotageRules, handleExit }) => {
+    const [game, setGame] = useState<GameState>(() => createGameState(boardConfig, sabotageRules));
+    const [handOverTo, setHandOverTo] = useState<PlayerColor | null>('red'); // Privacy screen for this player
+    const [lastPublicNote, setLastPublicNote] = useState<string | null>(null);
+    const [showReplay, setShowReplay] = useState<boolean>(false);
+
+    const activePlayer = game.currentPlayer;
+    const isGameOver = game.gamePhase === 'game_over';
+    const view = buildPlayerView(game, isGameOver ? null : activePlayer, 0);
+    const sabotageSummary = isGameOver ? summarizeGame(game.history, game.board, game.config) : null;
+
+    const runAction = (action: GameAction) => {
+        const result = applyAction(game, action);
+        if ('error' in result) {
+            console.log("Local game rejected action:", result.error);
+            return;
+        }
+        const nextGame: GameState = {
+            ...result.state,
+            history: [...game.history, { action, events: result.events, at: Date.now() }],
+        };
+        setGame(nextGame);
+        setLastPublicNote(describePublicEvents(result.events, game.rules));
+        // A new player is up: hide the board until they have the device
+        if (nextGame.gamePhase !== 'game_over' && nextGame.currentPlayer && nextGame.currentPlayer !== action.player) {
+            setHandOverTo(nextGame.currentPlayer);
+        }
+    };
+
+    const handleSabotageSelectionClick = (row: number, col: number) => {
+        if (activePlayer) runAction({ type: 'select_sabotage', player: activePlayer, row, col });
+    };
+
+    const handleColumnClick = (col: number) => {
+        if (activePlayer) runAction({ type: 'make_move', player: activePlayer, col });
+    };
+
+    const handleNewGame = () => {
+        setGame(createGameState(game.config, game.rules));
+        setHandOverTo('red');
+        setLastPublicNote(null);
+        setShowReplay(false);
+    };
+
+    const myTurnToSelect = !!activePlayer && !isGameOver &&
+        canSelectSabotage(game.gamePhase, activePlayer, activePlayer, game.pendingReselect[activePlayer]);
+    const myTurnToPlay = !!activePlayer && game.gamePhase === 'playing' && !game.pendingReselect[activePlayer];
+
+    // --- Status Message ---
+    let message: React.ReactNode = "";
+    if (isGameOver) {
+        message = game.winner
+            ? <span className="text-green-700 font-bold">Player {colorName(game.winner)} Wins!</span>
+            : <span className="text-gray-700 font-bold">It&apos;s a Draw!</span>;
+    } else if (activePlayer) {
+        const who = <span className={`font-semibold ${colorClass(activePlayer)}`}>{colorName(activePlayer)}</span>;
+        const spotsLeft = game.rules.spotsPerPlayer - getSabotage(game, activePlayer).length;
+        const countNote = game.rules.spotsPerPlayer > 1 && spotsLeft > 0 ? ` (${spotsLeft} to go)` : '';
+        if (game.gamePhase.startsWith('init_select')) message = <>{who}: Select your Sabotage Space{countNote}</>;
+        else if (myTurnToSelect) message = <>{who}: Select a NEW Sabotage Space{countNote}</>;
+        else message = <>{who}: Drop a piece</>;
+    }
+
+    const buttonClass = "px-4 py-2 text-white rounded-lg shadow transition-colors duration-200 font-semibold";
+
+    return (
+        <div className="relative flex flex-col items-center w-full max-w-md md:max-w-lg lg:max-w-xl z-10">
+            {handOverTo && !isGameOver ? (
+                // --- Hand-over (privacy) screen ---
+                <div className="flex flex-col items-center text-center p-6 bg-white rounded-lg shadow-lg border border-gray-300 w-full mb-4">
+                    {lastPublicNote && <p className="mb-3 text-orange-600 font-semibold">{lastPublicNote}</p>}
+                    <p className="text-xl text-gray-800 mb-4">
+                        Pass the device to <span className={`font-bold ${colorClass(handOverTo)}`}>{colorName(handOverTo)}</span>.
+                    </p>
+                    <button
+                        onClick={() => setHandOverTo(null)}
+                        className={`${buttonClass} ${handOverTo === 'red' ? 'bg-red-600 hover:bg-red-700' : 'bg-yellow-500 hover:bg-yellow-600'}`}
+                    >
+                        I&apos;m {colorName(handOverTo)}, show my board
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <GameInfo message={message} opponentLeftMessage={null} boardConfig={game.config} sabotageRules={game.rules} />
+                    {showReplay ? (
+                        <ReplayViewer history={game.history} config={game.config} rules={game.rules} onClose={() => setShowReplay(false)} />
+                    ) : (
+                        <GameBoard
+                            board={game.board}
+                            gameState={view}
+                            myPlayerColor={isGameOver ? null : activePlayer}
+                            handleSabotageSelectionClick={handleSabotageSelectionClick}
+                            handleColumnClick={handleColumnClick}
+                            myTurnToSelect={myTurnToSelect}
+                            myTurnToPlay={myTurnToPlay}
+                            revealedSabotage={view.revealedSabotage}
+                            flippedCells={sabotageSummary?.flippedCells}
+                            winningLine={sabotageSummary?.winningLine}
+                        />
+                    )}
+                    {sabotageSummary && !showReplay && (
+                        <SabotageTimeline summary={sabotageSummary} config={game.config} winner={game.winner} />
+                    )}
+                </>
+            )}
+
+            {/* Controls */}
+            <div className="flex space-x-2 mt-2">
+                {isGameOver && (
+                    <>
+                        <button onClick={handleNewGame} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-700`}>
+                            Play Again?
+                        </button>
+                        {!showReplay && (
+                            <button onClick={() => setShowReplay(true)} className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}>
+                                Watch Replay
+                            </button>
+                        )}
+                    </>
+                )}
+                <button onClick={handleExit} className={`${buttonClass} bg-red-600 hover:bg-red-700`}>
+                    Leave Game
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default HotSeatGame;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { BoardConfig, HistoryEntry, SabotageRules } from '@/types';
+import { parseGameRecord } from '@/lib/notation';
+
+interface ImportGameProps {
+    showImport: boolean;
+    setShowImport: (show: boolean) => void;
+    handleOpenRecord: (history: HistoryEntry[], config: BoardConfig, rules: SabotageRules) => void;
+}
+
+const ImportGame: React.FC<ImportGameProps> = ({ showImport, setShowImport, handleOpenRecord }) => {
+    const [recordText, setRecordText] = useState<string>("");
+    const [importError, setImportError] = useState<string | null>(null);
+
+    if (!showImport) {
+        return null;
+    }
+
+    const handleOpen = () => {
+        const parsed = parseGameRecord(recordText);
+        if ('error' in parsed) {
+            setImportError(parsed.error);
+            return;
+        }
+        setImportError(null);
+        handleOpenRecord(parsed.history, parsed.config, parsed.rules);
+    };
+
+    return (
+        <div className="mt-4 p-4 bg-white rounded-lg shadow-lg border border-gray-300 max-w-md w-full text-left text-sm z-20">
+            <h3 className="text-lg font-semibold mb-2 text-gray-700">Import Game</h3>
+            <textarea
+                value={recordText}
+                onChange={(e) => setRecordText(e.target.value)}
+                placeholder="Paste a game record here"
+                rows={8}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md font-mono text-xs text-gray-800 placeholder-gray-500"
+            />
+            {importError && (
+                <p className="mt-2 text-red-600 font-semibold">Error: {importError}</p>
+            )}
+            <div className="w-full flex justify-center space-x-2 mt-3">
+                <button
+                    onClick={handleOpen}
+                    disabled={!recordText.trim()}
+                    className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 text-xs"
+                >
+                    Open in Viewer
+                </button>
+                <button
+                    onClick={() => setShowImport(false)}
+                    className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 text-xs"
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ImportGame;
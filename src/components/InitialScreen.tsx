@@ -1,22 +1,73 @@
 import React from 'react';
-import { Socket } from "socket.io-client";
+import { GameSocket } from '@/lib/protocol';
 import { Quicksand } from 'next/font/google'; // Import the font
 import RulesDisplay from './RulesDisplay'; // Import RulesDisplay
+import ImportGame from './ImportGame';
+import LobbyList from './LobbyList';
+import PlayerCard from './PlayerCard';
+import RuleVariantPicker from './RuleVariantPicker';
+import { AiDifficulty, BoardConfig, HistoryEntry, LobbyUpdate, PlayerColor, PlayerProfile, SabotageRules, TimeControl } from '@/types';
+import { describeTimeControl } from '@/lib/clock';
+import { SERIES_LENGTHS } from '@/lib/series';
 
 // Instantiate the font (assuming the same configuration)
 const quicksand = Quicksand({ subsets: ['latin'], weight: ['400', '700'] });
 
+// Boards offered when creating a game (the server accepts anything within BOARD_LIMITS)
+const BOARD_PRESETS: { label: string, config: BoardConfig }[] = [
+    { label: 'Classic (7x6, Connect 4)', config: { cols: 7, rows: 6, connect: 4 } },
+    { label: 'Mini (5x4, Connect 3)', config: { cols: 5, rows: 4, connect: 3 } },
+    { label: 'Big (9x7, Connect 4)', config: { cols: 9, rows: 7, connect: 4 } },
+    { label: 'Connect 5 (9x8)', config: { cols: 9, rows: 8, connect: 5 } },
+    { label: 'Connect 6 (10x9)', config: { cols: 10, rows: 9, connect: 6 } },
+];
+
+// Time controls offered for online games (null = untimed)
+const TIME_CONTROL_PRESETS: (TimeControl | null)[] = [
+    null,
+    { kind: 'per_move', seconds: 15 },
+    { kind: 'per_move', seconds: 30 },
+    { kind: 'total', seconds: 180, incrementSeconds: 2 },
+    { kind: 'total', seconds: 600, incrementSeconds: 5 },
+];
+
 interface InitialScreenProps {
-    socket: Socket | null;
+    socket: GameSocket | null;
     gameId: string | null;
     handleCreateGame: () => void;
     handleJoinGame: () => void;
+    handleSpectateGame: () => void;
+    handleJoinOpenGame: (gameId: string) => void;
+    handleQuickMatch: () => void;
+    handleCancelQuickMatch: () => void;
+    isInQuickMatch: boolean;
+    lobby: LobbyUpdate | null;
+    profile: PlayerProfile | null;
+    handleRegister: (nickname: string) => void;
+    registerError: string | null;
+    handleCreateComputerGame: () => void;
+    handleStartLocalGame: () => void;
+    computerDifficulty: AiDifficulty;
+    setComputerDifficulty: (difficulty: AiDifficulty) => void;
+    computerGameColor: PlayerColor;
+    setComputerGameColor: (color: PlayerColor) => void;
+    boardConfig: BoardConfig;
+    setBoardConfig: (config: BoardConfig) => void;
+    timeControl: TimeControl | null;
+    setTimeControl: (control: TimeControl | null) => void;
+    bestOf: number | null;
+    setBestOf: (bestOf: number | null) => void;
+    sabotageRules: SabotageRules;
+    setSabotageRules: (rules: SabotageRules) => void;
     joinGameIdInput: string;
     setJoinGameIdInput: (id: string) => void;
     joinError: string | null;
     showRules: boolean;
     setShowRules: (show: boolean) => void;
     rulesText: string;
+    showImport: boolean;
+    setShowImport: (show: boolean) => void;
+    handleOpenRecord: (history: HistoryEntry[], config: BoardConfig, rules: SabotageRules) => void;
 }
 
 const InitialScreen: React.FC<InitialScreenProps> = ({
@@ -24,15 +75,95 @@ const InitialScreen: React.FC<InitialScreenProps> = ({
     gameId,
     handleCreateGame,
     handleJoinGame,
+    handleSpectateGame,
+    handleJoinOpenGame,
+    handleQuickMatch,
+    handleCancelQuickMatch,
+    isInQuickMatch,
+    lobby,
+    profile,
+    handleRegister,
+    registerError,
+    handleCreateComputerGame,
+    handleStartLocalGame,
+    computerDifficulty,
+    setComputerDifficulty,
+    computerGameColor,
+    setComputerGameColor,
+    boardConfig,
+    setBoardConfig,
+    timeControl,
+    setTimeControl,
+    bestOf,
+    setBestOf,
+    sabotageRules,
+    setSabotageRules,
     joinGameIdInput,
     setJoinGameIdInput,
     joinError,
     showRules,
     setShowRules,
-    rulesText
+    rulesText,
+    showImport,
+    setShowImport,
+    handleOpenRecord
 }) => {
+    const presetIndex = BOARD_PRESETS.findIndex(p =>
+        p.config.cols === boardConfig.cols && p.config.rows === boardConfig.rows && p.config.connect === boardConfig.connect);
+    const timeControlIndex = TIME_CONTROL_PRESETS.indexOf(timeControl);
+
     return (
         <div className="relative flex flex-col items-center space-y-4 w-full px-2 z-10">
+            <PlayerCard
+                profile={profile}
+                handleRegister={handleRegister}
+                registerError={registerError}
+                disabled={!socket}
+            />
+            {/* Board for new games (Create Game, Play vs Computer and Pass & Play) */}
+            <label className="flex items-center space-x-2 text-gray-800 font-semibold">
+                <span>Board:</span>
+                <select
+                    value={presetIndex}
+                    onChange={(e) => setBoardConfig(BOARD_PRESETS[Number(e.target.value)].config)}
+                    disabled={!!gameId}
+                    className="px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-gray-800 font-normal"
+                >
+                    {BOARD_PRESETS.map((preset, i) => (
+                        <option key={preset.label} value={i}>{preset.label}</option>
+                    ))}
+                </select>
+                {/* Clocks only apply to online games; the server enforces them */}
+                <span>Time:</span>
+                <select
+                    value={timeControlIndex}
+                    onChange={(e) => setTimeControl(TIME_CONTROL_PRESETS[Number(e.target.value)])}
+                    disabled={!!gameId}
+                    className="px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-gray-800 font-normal"
+                >
+                    {TIME_CONTROL_PRESETS.map((control, i) => (
+                        <option key={i} value={i}>{control ? describeTimeControl(control) : 'Untimed'}</option>
+                    ))}
+                </select>
+                {/* Match length for Create Game and Play vs Computer; Quick Match always plays single games */}
+                <span>Match:</span>
+                <select
+                    value={bestOf ?? 0}
+                    onChange={(e) => setBestOf(Number(e.target.value) || null)}
+                    disabled={!!gameId}
+                    className="px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-gray-800 font-normal"
+                >
+                    <option value={0}>Single game</option>
+                    {SERIES_LENGTHS.map(length => (
+                        <option key={length} value={length}>Best of {length}</option>
+                    ))}
+                </select>
+            </label>
+            <RuleVariantPicker
+                sabotageRules={sabotageRules}
+                setSabotageRules={setSabotageRules}
+                disabled={!!gameId}
+            />
             <div className="flex flex-col sm:flex-row items-center space-y-3 sm:space-y-0 sm:space-x-4 w-full justify-center">
                 <button
                     onClick={handleCreateGame}
@@ -41,6 +172,22 @@ const InitialScreen: React.FC<InitialScreenProps> = ({
                 >
                     Create Game
                 </button>
+                {isInQuickMatch ? (
+                    <button
+                        onClick={handleCancelQuickMatch}
+                        className="w-full sm:w-auto px-4 py-2 sm:px-6 sm:py-3 bg-gray-500 text-white rounded-lg shadow hover:bg-gray-600 transition-colors duration-200 text-base sm:text-lg font-semibold"
+                    >
+                        Searching... Cancel
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleQuickMatch}
+                        disabled={!socket || !!gameId}
+                        className="w-full sm:w-auto px-4 py-2 sm:px-6 sm:py-3 bg-pink-600 text-white rounded-lg shadow hover:bg-pink-700 disabled:bg-gray-400 transition-colors duration-200 text-base sm:text-lg font-semibold"
+                    >
+                        Quick Match
+                    </button>
+                )}
                 <div className="flex flex-col sm:flex-row items-center space-y-3 sm:space-y-0 sm:space-x-2 w-full sm:w-auto">
                     <input
                         type="text"
@@ -57,19 +204,75 @@ const InitialScreen: React.FC<InitialScreenProps> = ({
                     >
                         Join Game
                     </button>
+                    <button
+                        onClick={handleSpectateGame}
+                        disabled={!socket || !!gameId || !joinGameIdInput.trim()}
+                        className="w-full sm:w-auto px-4 py-2 sm:px-6 sm:py-3 bg-purple-600 text-white rounded-lg shadow hover:bg-purple-700 disabled:bg-gray-400 transition-colors duration-200 text-base sm:text-lg font-semibold"
+                    >
+                        Watch Game
+                    </button>
                 </div>
             </div>
+            {/* Open games waiting for a second player */}
+            <LobbyList
+                lobby={lobby}
+                handleJoinOpenGame={handleJoinOpenGame}
+                disabled={!socket || !!gameId || isInQuickMatch}
+            />
+            {/* Single Player */}
+            <div className="flex flex-col sm:flex-row items-center space-y-3 sm:space-y-0 sm:space-x-2 w-full justify-center">
+                <select
+                    value={computerDifficulty}
+                    onChange={(e) => setComputerDifficulty(e.target.value as AiDifficulty)}
+                    disabled={!socket || !!gameId}
+                    className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-gray-800"
+                >
+                    <option value="easy">Easy</option>
+                    <option value="medium">Medium</option>
+                    <option value="hard">Hard</option>
+                </select>
+                <select
+                    value={computerGameColor}
+                    onChange={(e) => setComputerGameColor(e.target.value as PlayerColor)}
+                    disabled={!socket || !!gameId}
+                    className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-gray-800"
+                >
+                    <option value="red">Play as Red (first)</option>
+                    <option value="yellow">Play as Yellow</option>
+                </select>
+                <button
+                    onClick={handleCreateComputerGame}
+                    disabled={!socket || !!gameId}
+                    className="w-full sm:w-auto px-4 py-2 sm:px-6 sm:py-3 bg-orange-600 text-white rounded-lg shadow hover:bg-orange-700 disabled:bg-gray-400 transition-colors duration-200 text-base sm:text-lg font-semibold"
+                >
+                    Play vs Computer
+                </button>
+            </div>
+            {/* Pass & Play: two players on this device, works without the server */}
+            <button
+                onClick={handleStartLocalGame}
+                disabled={!!gameId}
+                className="w-full sm:w-auto px-4 py-2 sm:px-6 sm:py-3 bg-teal-600 text-white rounded-lg shadow hover:bg-teal-700 disabled:bg-gray-400 transition-colors duration-200 text-base sm:text-lg font-semibold"
+            >
+                Pass &amp; Play on This Device
+            </button>
             {/* Server Note */}
             <p className={`mt-4 text-lg text-gray-800 text-center ${quicksand.className}`}>
                 Note: Server falls asleep if unused for a while! If you can&apos;t create a room, just wait a minute and try again!
             </p>
-            <div className="w-full flex justify-center mt-4">
+            <div className="w-full flex justify-center space-x-4 mt-4">
                 <button
                     onClick={() => setShowRules(!showRules)}
                     className="px-4 py-2 sm:px-6 sm:py-3 bg-gray-500 text-white rounded-lg shadow hover:bg-gray-600 disabled:bg-gray-400 transition-colors duration-200 text-base sm:text-lg font-semibold"
                 >
                     Rules
                 </button>
+                <button
+                    onClick={() => setShowImport(!showImport)}
+                    className="px-4 py-2 sm:px-6 sm:py-3 bg-gray-500 text-white rounded-lg shadow hover:bg-gray-600 disabled:bg-gray-400 transition-colors duration-200 text-base sm:text-lg font-semibold"
+                >
+                    Import Game
+                </button>
             </div>
             {joinError && (
                 <p className="mt-2 text-red-600 font-semibold">Error: {joinError}</p>
@@ -79,6 +282,13 @@ const InitialScreen: React.FC<InitialScreenProps> = ({
                 rulesText={rulesText}
                 showRules={showRules}
                 setShowRules={setShowRules}
+                sabotageRules={sabotageRules}
+                variantHeading="Variant for Your New Games"
+            />
+            <ImportGame
+                showImport={showImport}
+                setShowImport={setShowImport}
+                handleOpenRecord={handleOpenRecord}
             />
         </div>
     );
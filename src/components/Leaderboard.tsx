@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Quicksand } from 'next/font/google';
+import { LeaderboardEntry } from '@/types';
+
+const quicksand = Quicksand({ subsets: ['latin'], weight: ['400', '700'] });
+
+const Leaderboard: React.FC = () => {
+    const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const serverUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3001";
+        fetch(`${serverUrl}/api/leaderboard`)
+            .then(res => {
+                if (!res.ok) throw new Error(`Server responded ${res.status}`);
+                return res.json();
+            })
+            .then((data: { players: LeaderboardEntry[] }) => setEntries(data.players))
+            .catch(err => {
+                console.error("Failed to load leaderboard:", err);
+                setError("Couldn't load the leaderboard. The server might be asleep, try again in a minute!");
+            });
+    }, []);
+
+    return (
+        <div className="flex flex-col items-center min-h-screen p-4 bg-blue-50">
+            <h1 className={`text-3xl sm:text-4xl font-extrabold mb-6 text-gray-800 ${quicksand.className} text-center`}>
+                Leaderboard
+            </h1>
+
+            {error && <p className="mb-4 text-red-600 font-semibold">{error}</p>}
+            {!entries && !error && <p className="text-gray-600">Loading...</p>}
+            {entries && entries.length === 0 && (
+                <p className="text-gray-600">No rated games yet. Pick a nickname and play someone!</p>
+            )}
+
+            {entries && entries.length > 0 && (
+                <table className="w-full max-w-2xl bg-white rounded-lg shadow-lg border border-gray-300 text-left text-gray-800">
+                    <thead className="bg-gray-100 text-sm text-gray-600">
+                        <tr>
+                            <th className="px-3 py-2">#</th>
+                            <th className="px-3 py-2">Player</th>
+                            <th className="px-3 py-2">Rating</th>
+                            <th className="px-3 py-2">Games</th>
+                            <th className="px-3 py-2">W / L / D</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => (
+                            <tr key={entry.nickname} className="border-t border-gray-200">
+                                <td className="px-3 py-2">{entry.rank}</td>
+                                <td className="px-3 py-2 font-semibold">{entry.nickname}</td>
+                                <td className="px-3 py-2">{entry.rating}</td>
+                                <td className="px-3 py-2">{entry.gamesPlayed}</td>
+                                <td className="px-3 py-2">{entry.wins} / {entry.losses} / {entry.draws}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <Link href="/" className="mt-6 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 transition duration-200">
+                Back to the Game
+            </Link>
+        </div>
+    );
+};
+
+export default Leaderboard;
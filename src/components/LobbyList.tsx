@@ -0,0 +1,59 @@
+import React from 'react';
+import { LobbyUpdate } from '@/types';
+import { describeTimeControl } from '@/lib/clock';
+import { describeSabotageRules, isDefaultRules } from '@/lib/rules';
+
+interface LobbyListProps {
+    lobby: LobbyUpdate | null;
+    handleJoinOpenGame: (gameId: string) => void;
+    disabled: boolean;
+}
+
+// "just now", "3 min ago", ...
+const formatAge = (createdAt: number): string => {
+    const minutes = Math.floor((Date.now() - createdAt) / 60000);
+    return minutes < 1 ? 'just now' : `${minutes} min ago`;
+};
+
+const LobbyList: React.FC<LobbyListProps> = ({ lobby, handleJoinOpenGame, disabled }) => {
+    return (
+        <div className="p-4 bg-white rounded-lg shadow-lg border border-gray-300 max-w-md w-full text-left text-sm">
+            <h3 className="text-lg font-semibold mb-2 text-gray-700">Open Games</h3>
+            {!lobby ? (
+                <p className="text-gray-500">Loading lobby...</p>
+            ) : lobby.games.length === 0 ? (
+                <p className="text-gray-500">No open games right now. Create one or try Quick Match!</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 max-h-48 overflow-y-auto">
+                    {lobby.games.map(game => (
+                        <li key={game.gameId} className="flex items-center justify-between py-2">
+                            <div className="text-gray-700">
+                                <span className="font-semibold">{game.config.cols}x{game.config.rows}, Connect {game.config.connect}</span>
+                                <span className="text-gray-500"> &middot; {game.timeControl ? describeTimeControl(game.timeControl) : 'Untimed'}</span>
+                                {game.bestOf && <span className="text-gray-500"> &middot; Best of {game.bestOf}</span>}
+                                {!isDefaultRules(game.rules) && (
+                                    <span className="text-purple-700" title={describeSabotageRules(game.rules).join('\n')}> &middot; Variant</span>
+                                )}
+                                <span className="block text-xs text-gray-400">{formatAge(game.createdAt)}</span>
+                            </div>
+                            <button
+                                onClick={() => handleJoinOpenGame(game.gameId)}
+                                disabled={disabled}
+                                className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 text-xs"
+                            >
+                                Join
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {lobby && lobby.queueSize > 0 && (
+                <p className="mt-2 text-xs text-gray-500">
+                    {lobby.queueSize} {lobby.queueSize === 1 ? 'player' : 'players'} looking for a quick match
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default LobbyList;
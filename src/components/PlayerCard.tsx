@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { PlayerProfile } from '@/types';
+
+interface PlayerCardProps {
+    profile: PlayerProfile | null;
+    handleRegister: (nickname: string) => void;
+    registerError: string | null;
+    disabled: boolean;
+}
+
+// Who we're playing as: a registered nickname with a rating, or a form to pick one
+const PlayerCard: React.FC<PlayerCardProps> = ({ profile, handleRegister, registerError, disabled }) => {
+    const [nickname, setNickname] = useState<string>("");
+
+    return (
+        <div className="flex flex-col items-center text-gray-800 text-center">
+            {profile ? (
+                <p>
+                    Playing as <span className="font-semibold">{profile.nickname}</span>
+                    {' '}&middot; Rating <span className="font-semibold">{profile.rating}</span>
+                    <span className="text-sm text-gray-600"> ({profile.wins}W {profile.losses}L {profile.draws}D)</span>
+                </p>
+            ) : (
+                <div className="flex flex-col sm:flex-row items-center space-y-2 sm:space-y-0 sm:space-x-2">
+                    <input
+                        type="text"
+                        value={nickname}
+                        onChange={(e) => setNickname(e.target.value)}
+                        placeholder="Pick a nickname for rated games"
+                        maxLength={20}
+                        className="w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-700 text-gray-800"
+                        disabled={disabled}
+                    />
+                    <button
+                        onClick={() => handleRegister(nickname)}
+                        disabled={disabled || !nickname.trim()}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700 disabled:bg-gray-400 transition-colors duration-200 font-semibold"
+                    >
+                        Save Nickname
+                    </button>
+                </div>
+            )}
+            {registerError && <p className="mt-1 text-red-600 text-sm font-semibold">{registerError}</p>}
+            <div className="mt-1 flex space-x-4">
+                <Link href="/leaderboard" className="text-sm text-indigo-700 underline hover:text-indigo-900">
+                    Leaderboard
+                </Link>
+                <Link href="/tournaments" className="text-sm text-indigo-700 underline hover:text-indigo-900">
+                    Tournaments
+                </Link>
+            </div>
+        </div>
+    );
+};
+
+export default PlayerCard;
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { BoardConfig, GameEvent, HistoryEntry, Player, RulesState, SabotageRules } from '@/types';
+import { applyAction, createRulesState, DEFAULT_BOARD_CONFIG, DEFAULT_SABOTAGE_RULES } from '@/lib/rules';
+import GameBoard from './GameBoard';
+
+interface ReplayViewerProps {
+    history: HistoryEntry[];
+    config?: BoardConfig; // Board the game was played on (classic if not given)
+    rules?: SabotageRules; // Rule variant the game was played with (original rules if not given)
+    onClose: () => void;
+}
+
+const colorName = (player: Player) => player === 'red' ? 'Red' : 'Yellow';
+
+// Human-readable line for one event (rows/columns are shown 1-based, rows from the top)
+const describeEvent = (event: GameEvent, rules: SabotageRules): string => {
+    switch (event.type) {
+        case 'sabotage_selected':
+            return `${colorName(event.player)} picked a Sabotage Space at row ${event.row + 1}, column ${event.col + 1}.`;
+        case 'reselect_started':
+            return `${colorName(event.player)} gets to pick a new Sabotage Space.`;
+        case 'piece_placed':
+            if (event.piece !== event.player) {
+                return `${colorName(event.player)} dropped a piece in column ${event.col + 1} and it turned ${colorName(event.piece)}!`;
+            }
+            return `${colorName(event.player)} dropped a piece in column ${event.col + 1}.`;
+        case 'overlap_triggered':
+            return rules.overlap === 'flip'
+                ? "Both Sabotage Spaces were on that cell: the piece flips and both players pick again."
+                : "Both Sabotage Spaces were on that cell: they cancel out and both players pick again.";
+        case 'opponent_sabotage_triggered':
+            return `That was ${colorName(event.spotOwner)}'s Sabotage Space.`;
+        case 'own_sabotage_triggered':
+            return `That was ${colorName(event.player)}'s own Sabotage Space, so they pick a new one ${rules.ownTrigger === 'immediate' ? 'now' : 'next turn'}.`;
+        case 'time_forfeit':
+            return `${colorName(event.player)} ran out of time.`;
+        case 'resigned':
+            return `${colorName(event.player)} resigned.`;
+        case 'draw_offered':
+            return `${colorName(event.player)} offered a draw.`;
+        case 'draw_agreed':
+            return "The draw offer was accepted.";
+        case 'game_won':
+            return `${colorName(event.winner)} wins!`;
+        case 'game_drawn':
+            return "The board is full: it's a draw.";
+    }
+};
+
+// Re-runs the history through the rules engine to get the position after every step
+const buildPositions = (history: HistoryEntry[], config: BoardConfig, rules: SabotageRules): RulesState[] => {
+    let state = createRulesState(config, rules);
+    const positions = [state];
+    for (const entry of history) {
+        const result = applyAction(state, entry.action);
+        if ('error' in result) {
+            console.error("Replay stopped: history entry could not be applied:", result.error);
+            break;
+        }
+        state = result.state;
+        positions.push(state);
+    }
+    return positions;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ history, config = DEFAULT_BOARD_CONFIG, rules = DEFAULT_SABOTAGE_RULES, onClose }) => {
+    const positions = useMemo(() => buildPositions(history, config, rules), [history, config, rules]);
+    const lastStep = positions.length - 1;
+    const [step, setStep] = useState(lastStep);
+
+    const position = positions[step];
+    const entry = step > 0 ? history[step - 1] : null;
+
+    const buttonClass = "px-3 py-1 bg-blue-600 text-white rounded shadow hover:bg-blue-700 disabled:bg-gray-400 transition-colors duration-200 font-semibold";
+
+    return (
+        <div className="relative flex flex-col items-center w-full z-10">
+            <GameBoard
+                board={position.board}
+                gameState={null}
+                myPlayerColor={null}
+                handleSabotageSelectionClick={() => {}}
+                handleColumnClick={() => {}}
+                myTurnToSelect={false}
+                myTurnToPlay={false}
+                readOnly
+                revealedSabotage={{ red: position.redSabotage, yellow: position.yellowSabotage }}
+                triggeredSpots={position.triggeredSpots}
+            />
+
+            <p className="text-sm text-gray-700 mb-1">Step {step} of {lastStep}</p>
+            <div className="min-h-[3rem] text-center text-gray-800 mb-3 px-2">
+                {entry ? entry.events.map((event, i) => <p key={i}>{describeEvent(event, rules)}</p>) : <p>Start of the game.</p>}
+            </div>
+
+            <div className="flex space-x-2">
+                <button onClick={() => setStep(0)} disabled={step === 0} className={buttonClass}>&laquo;</button>
+                <button onClick={() => setStep(step - 1)} disabled={step === 0} className={buttonClass}>&lsaquo; Back</button>
+                <button onClick={() => setStep(step + 1)} disabled={step === lastStep} className={buttonClass}>Forward &rsaquo;</button>
+                <button onClick={() => setStep(lastStep)} disabled={step === lastStep} className={buttonClass}>&raquo;</button>
+            </div>
+
+            <button
+                onClick={onClose}
+                className="mt-3 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 transition duration-200"
+            >
+                Close Replay
+            </button>
+        </div>
+    );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { SabotageRules } from '@/types';
+import { isDefaultRules, SPOTS_PER_PLAYER_LIMITS } from '@/lib/rules';
+
+interface RuleVariantPickerProps {
+    sabotageRules: SabotageRules;
+    setSabotageRules: (rules: SabotageRules) => void;
+    disabled: boolean;
+}
+
+const SPOT_COUNTS = Array.from(
+    { length: SPOTS_PER_PLAYER_LIMITS.max - SPOTS_PER_PLAYER_LIMITS.min + 1 },
+    (_, i) => SPOTS_PER_PLAYER_LIMITS.min + i,
+);
+
+// Sabotage rule variant for new games, tucked away since most people play the original rules
+const RuleVariantPicker: React.FC<RuleVariantPickerProps> = ({ sabotageRules, setSabotageRules, disabled }) => {
+    const update = (changes: Partial<SabotageRules>) => setSabotageRules({ ...sabotageRules, ...changes });
+
+    return (
+        <details className="p-3 bg-white rounded-lg shadow border border-gray-300 max-w-md w-full text-sm text-gray-800">
+            <summary className="cursor-pointer font-semibold">
+                Rule variant{isDefaultRules(sabotageRules) ? ': original' : ': custom'}
+            </summary>
+            <div className="flex flex-col space-y-2 mt-2">
+                <label className="flex items-center space-x-2">
+                    <span>Sabotage Spaces each:</span>
+                    <select
+                        value={sabotageRules.spotsPerPlayer}
+                        onChange={(e) => update({ spotsPerPlayer: Number(e.target.value) })}
+                        disabled={disabled}
+                        className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+                    >
+                        {SPOT_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <input
+                        type="checkbox"
+                        checked={sabotageRules.emptyCellsOnly}
+                        onChange={(e) => update({ emptyCellsOnly: e.target.checked })}
+                        disabled={disabled}
+                    />
+                    <span>Sabotage Spaces must go on empty cells</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <input
+                        type="checkbox"
+                        checked={sabotageRules.ownTrigger === 'immediate'}
+                        onChange={(e) => update({ ownTrigger: e.target.checked ? 'immediate' : 'delayed' })}
+                        disabled={disabled}
+                    />
+                    <span>Reselect straight away after landing on your own space</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <input
+                        type="checkbox"
+                        checked={sabotageRules.overlap === 'flip'}
+                        onChange={(e) => update({ overlap: e.target.checked ? 'flip' : 'cancel' })}
+                        disabled={disabled}
+                    />
+                    <span>Shared Sabotage Spaces flip the piece instead of cancelling</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <input
+                        type="checkbox"
+                        checked={sabotageRules.revealTriggered}
+                        onChange={(e) => update({ revealTriggered: e.target.checked })}
+                        disabled={disabled}
+                    />
+                    <span>Show Sabotage Spaces once they&apos;ve been triggered</span>
+                </label>
+            </div>
+        </details>
+    );
+};
+
+export default RuleVariantPicker;
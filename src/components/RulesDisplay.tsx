@@ -1,12 +1,16 @@
 import React from 'react';
+import { SabotageRules } from '@/types';
+import { describeSabotageRules } from '@/lib/rules';
 
 interface RulesDisplayProps {
     rulesText: string;
     showRules: boolean;
     setShowRules: (show: boolean) => void;
+    sabotageRules?: SabotageRules; // Variant to list under the rules (none shown if not given)
+    variantHeading?: string;
 }
 
-const RulesDisplay: React.FC<RulesDisplayProps> = ({ rulesText, showRules, setShowRules }) => {
+const RulesDisplay: React.FC<RulesDisplayProps> = ({ rulesText, showRules, setShowRules, sabotageRules, variantHeading = "This Game's Variant" }) => {
     if (!showRules) {
         return null;
     }
@@ -15,6 +19,18 @@ const RulesDisplay: React.FC<RulesDisplayProps> = ({ rulesText, showRules, setSh
         <div className="mt-4 p-4 bg-white rounded-lg shadow-lg border border-gray-300 max-w-md w-full text-left text-sm z-20">
             <h3 className="text-lg font-semibold mb-2 text-gray-700">Game Rules</h3>
             <pre className="whitespace-pre-wrap text-gray-600">{rulesText}</pre>
+            {sabotageRules && (
+                <>
+                    <h4 className="font-semibold mt-2 mb-1 text-gray-700">{variantHeading}</h4>
+                    {describeSabotageRules(sabotageRules).length === 0 ? (
+                        <p className="text-gray-600">Original rules, as above.</p>
+                    ) : (
+                        <ul className="list-disc pl-5 text-purple-700">
+                            {describeSabotageRules(sabotageRules).map(line => <li key={line}>{line}</li>)}
+                        </ul>
+                    )}
+                </>
+            )}
             <div className="w-full flex justify-center mt-3">
                 <button
                     onClick={() => setShowRules(false)}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { BoardConfig, Player, PlayerColor } from '@/types';
+import { GameSummary, TimelineEntry } from '@/lib/gameSummary';
+import { formatCell } from '@/lib/notation';
+
+interface SabotageTimelineProps {
+    summary: GameSummary;
+    config: BoardConfig;
+    winner: Player;
+}
+
+const colorName = (player: PlayerColor) => player === 'red' ? 'Red' : 'Yellow';
+const colorClass = (player: PlayerColor) => player === 'red' ? 'text-red-600' : 'text-yellow-600';
+
+const describeEntry = (entry: TimelineEntry, config: BoardConfig): React.ReactNode => {
+    const who = <span className={`font-semibold ${colorClass(entry.player)}`}>{colorName(entry.player)}</span>;
+    const cell = formatCell(config, entry.row, entry.col);
+    switch (entry.type) {
+        case 'flipped':
+            return <>{who} dropped on {colorName(entry.spotOwner)}&apos;s Sabotage Space at {cell}; the piece turned {colorName(entry.spotOwner)}.</>;
+        case 'own_trigger':
+            return <>{who} dropped on their own Sabotage Space at {cell}.</>;
+        case 'overlap':
+            return <>{who} found both Sabotage Spaces at {cell}.</>;
+        case 'reselect':
+            return <>{who} picked a new Sabotage Space at {cell}.</>;
+    }
+};
+
+// Shown once a game is over: how sabotage shaped the result, move by move
+const SabotageTimeline: React.FC<SabotageTimelineProps> = ({ summary, config, winner }) => {
+    const { timeline, winningLine, flippedInWinningLine, spots } = summary;
+
+    return (
+        <div className="p-3 bg-white rounded-lg shadow-lg border border-gray-300 w-full max-w-xs sm:max-w-sm md:max-w-md text-sm text-gray-800 mb-4">
+            <h3 className="text-base font-semibold mb-2 text-gray-700">How Sabotage Played Out</h3>
+            {winner && winningLine && (
+                <p className="mb-2">
+                    <span className={`font-semibold ${colorClass(winner)}`}>{colorName(winner)}</span> connected {winningLine.length}
+                    {flippedInWinningLine > 0
+                        ? `, with ${flippedInWinningLine} ${flippedInWinningLine === 1 ? 'piece' : 'pieces'} in the line flipped by sabotage.`
+                        : ' without help from sabotage.'}
+                </p>
+            )}
+            {timeline.length === 0 ? (
+                <p className="text-gray-500">No Sabotage Space was triggered this game. {spots.length} {spots.length === 1 ? 'was' : 'were'} set.</p>
+            ) : (
+                <ol className="space-y-1 max-h-48 overflow-y-auto pr-1">
+                    {timeline.map((entry, i) => (
+                        <li key={i}>
+                            <span className="text-gray-500">Move {entry.move}:</span> {describeEntry(entry, config)}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            <p className="mt-2 text-xs text-gray-500">
+                Solid rings: Sabotage Spaces still set. Dashed: triggered ones. &#8634; marks a flipped piece.
+            </p>
+        </div>
+    );
+};
+
+export default SabotageTimeline;
@@ -0,0 +1,227 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { io } from "socket.io-client";
+import { Quicksand } from 'next/font/google';
+import { TournamentMatch, TournamentView } from '@/types';
+import { GameSocket } from '@/lib/protocol';
+import { loadPlayer, saveSession } from '@/lib/storage';
+import { FORMAT_LABELS, STATUS_LABELS } from './Tournaments';
+
+const quicksand = Quicksand({ subsets: ['latin'], weight: ['400', '700'] });
+
+interface TournamentBracketProps {
+    tournamentId: string;
+}
+
+// "Round 1", ..., with the last elimination rounds named
+const roundName = (tournament: TournamentView, round: number): string => {
+    if (tournament.format === 'round_robin') return `Round ${round}`;
+    const rounds = Math.max(...tournament.matches.map(match => match.round));
+    if (round === rounds) return 'Final';
+    if (round === rounds - 1) return 'Semifinals';
+    return `Round ${round}`;
+};
+
+const TournamentBracket: React.FC<TournamentBracketProps> = ({ tournamentId }) => {
+    const router = useRouter();
+    const [socket, setSocket] = useState<GameSocket | null>(null);
+    const [tournament, setTournament] = useState<TournamentView | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [myPlayerId, setMyPlayerId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const storedPlayer = loadPlayer();
+        setMyPlayerId(storedPlayer?.playerId ?? null);
+
+        const serverUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3001";
+        const newSocket: GameSocket = io(serverUrl);
+        setSocket(newSocket);
+        newSocket.on('connect', () => {
+            // Identify first, so registering and claiming seats are tied to our profile
+            if (storedPlayer) newSocket.emit('identify_player', storedPlayer);
+            newSocket.emit('tournament_subscribe', tournamentId);
+        });
+        newSocket.on('tournament_update', (view) => {
+            setTournament(view);
+            setError(null);
+        });
+        newSocket.on('tournament_error', ({ message }) => setError(message));
+        newSocket.on('identity_error', ({ message }) => setError(message));
+        // The game screen takes the seat with the stored session, like after a reload
+        newSocket.on('tournament_seat', ({ gameId, sessionToken }) => {
+            saveSession({ gameId, sessionToken });
+            router.push('/');
+        });
+        return () => {
+            newSocket.emit('tournament_unsubscribe', tournamentId);
+            newSocket.disconnect();
+        };
+    }, [tournamentId, router]);
+
+    const nicknameOf = (playerId: string | null): string => {
+        if (!playerId) return 'Bye';
+        return tournament?.entrants.find(entrant => entrant.playerId === playerId)?.nickname ?? 'Unknown';
+    };
+
+    const isEntered = !!tournament && tournament.entrants.some(entrant => entrant.playerId === myPlayerId);
+    const isOrganizer = !!tournament && tournament.organizerId === myPlayerId;
+    const buttonClass = "px-4 py-2 text-white rounded-lg shadow transition-colors duration-200 font-semibold disabled:bg-gray-400";
+
+    const renderMatch = (match: TournamentMatch) => {
+        const isMine = !!myPlayerId && match.players.includes(myPlayerId);
+        return (
+            <li key={match.matchId} className={`p-2 rounded border ${isMine ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-white'}`}>
+                {match.players.map((playerId, side) => (
+                    <div key={side} className={`flex justify-between ${match.winner && match.winner === playerId ? 'font-bold' : ''}`}>
+                        <span className={playerId ? 'text-gray-800' : 'text-gray-400 italic'}>
+                            {match.status === 'pending' && !playerId ? 'TBD' : nicknameOf(playerId)}
+                        </span>
+                        {match.status !== 'bye' && <span className="ml-4">{match.wins[side]}</span>}
+                    </div>
+                ))}
+                {match.walkover && (
+                    <div className="mt-1 text-xs text-gray-500">
+                        {match.winner ? `Walkover to ${nicknameOf(match.winner)}` : 'Forfeited by both players'}
+                    </div>
+                )}
+                {match.status === 'playing' && (
+                    <div className="mt-1 text-xs text-gray-500">
+                        {match.draws > 0 && <span>{match.draws} drawn &middot; </span>}
+                        Watch with game ID <span className="font-mono bg-gray-200 px-1 rounded">{match.gameId}</span>
+                    </div>
+                )}
+                {match.status === 'playing' && isMine && (
+                    <button
+                        onClick={() => socket?.emit('claim_tournament_seat', { tournamentId, matchId: match.matchId })}
+                        className={`mt-2 w-full ${buttonClass} bg-green-600 hover:bg-green-700`}
+                    >
+                        Play Your Match
+                    </button>
+                )}
+            </li>
+        );
+    };
+
+    const rounds = tournament ? [...new Set(tournament.matches.map(match => match.round))] : [];
+
+    return (
+        <div className="flex flex-col items-center min-h-screen p-4 bg-blue-50">
+            <h1 className={`text-3xl sm:text-4xl font-extrabold mb-2 text-gray-800 ${quicksand.className} text-center`}>
+                {tournament?.name ?? 'Tournament'}
+            </h1>
+            {tournament && (
+                <p className="mb-6 text-gray-600">
+                    {FORMAT_LABELS[tournament.format]}
+                    {tournament.bestOf > 1 ? `, best of ${tournament.bestOf}` : ''} &middot; {STATUS_LABELS[tournament.status]}
+                </p>
+            )}
+
+            {error && <p className="mb-4 text-red-600 font-semibold">{error}</p>}
+            {!tournament && !error && <p className="text-gray-600">Loading...</p>}
+
+            {tournament?.status === 'finished' && tournament.championId && (
+                <p className="mb-4 text-xl font-bold text-green-700">Champion: {nicknameOf(tournament.championId)}</p>
+            )}
+
+            {tournament?.status === 'registering' && (
+                <div className="p-4 mb-6 bg-white rounded-lg shadow-lg border border-gray-300 max-w-2xl w-full text-gray-800">
+                    <h3 className="text-lg font-semibold mb-2 text-gray-700">Players ({tournament.entrants.length})</h3>
+                    {tournament.entrants.length === 0 ? (
+                        <p className="text-gray-500">Nobody has registered yet.</p>
+                    ) : (
+                        <ul className="mb-3 flex flex-wrap gap-2">
+                            {tournament.entrants.map(entrant => (
+                                <li key={entrant.playerId} className="px-2 py-1 bg-gray-100 rounded text-sm">
+                                    {entrant.nickname} <span className="text-gray-500">({entrant.rating})</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {!myPlayerId ? (
+                        <p className="text-gray-600">Pick a nickname on the start screen to enter.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-2">
+                            {isEntered ? (
+                                <button
+                                    onClick={() => socket?.emit('withdraw_from_tournament', { tournamentId })}
+                                    className={`${buttonClass} bg-gray-500 hover:bg-gray-600`}
+                                >
+                                    Withdraw
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => socket?.emit('register_for_tournament', { tournamentId })}
+                                    className={`${buttonClass} bg-indigo-600 hover:bg-indigo-700`}
+                                >
+                                    Register
+                                </button>
+                            )}
+                            {isOrganizer && (
+                                <button
+                                    onClick={() => socket?.emit('start_tournament', { tournamentId })}
+                                    disabled={tournament.entrants.length < 2}
+                                    className={`${buttonClass} bg-green-600 hover:bg-green-700`}
+                                >
+                                    Start Tournament
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Elimination brackets read left to right, round robins top to bottom */}
+            {tournament && rounds.length > 0 && (
+                <div className={`mb-6 w-full max-w-5xl flex ${tournament.format === 'single_elimination' ? 'flex-row overflow-x-auto gap-4' : 'flex-col gap-3'}`}>
+                    {rounds.map(round => (
+                        <div key={round} className="min-w-48 flex-1">
+                            <h3 className="mb-2 font-semibold text-gray-700">{roundName(tournament, round)}</h3>
+                            <ul className={`text-sm ${tournament.format === 'single_elimination' ? 'flex flex-col justify-around h-full gap-2' : 'grid grid-cols-1 sm:grid-cols-2 gap-2'}`}>
+                                {tournament.matches.filter(match => match.round === round).map(renderMatch)}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {tournament && tournament.status !== 'registering' && (
+                <table className="w-full max-w-2xl bg-white rounded-lg shadow-lg border border-gray-300 text-left text-gray-800">
+                    <thead className="bg-gray-100 text-sm text-gray-600">
+                        <tr>
+                            <th className="px-3 py-2">#</th>
+                            <th className="px-3 py-2">Player</th>
+                            <th className="px-3 py-2">Points</th>
+                            <th className="px-3 py-2">Matches W / L / D</th>
+                            <th className="px-3 py-2">Games W / L</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {tournament.standings.map(standing => (
+                            <tr key={standing.playerId} className={`border-t border-gray-200 ${standing.eliminated ? 'text-gray-400' : ''}`}>
+                                <td className="px-3 py-2">{standing.rank}</td>
+                                <td className="px-3 py-2 font-semibold">{standing.nickname}</td>
+                                <td className="px-3 py-2">{standing.points}</td>
+                                <td className="px-3 py-2">{standing.matchWins} / {standing.matchLosses} / {standing.matchDraws}</td>
+                                <td className="px-3 py-2">{standing.gameWins} / {standing.gameLosses}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div className="mt-6 flex space-x-2">
+                <Link href="/tournaments" className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition duration-200">
+                    All Tournaments
+                </Link>
+                <Link href="/" className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 transition duration-200">
+                    Back to the Game
+                </Link>
+            </div>
+        </div>
+    );
+};
+
+export default TournamentBracket;
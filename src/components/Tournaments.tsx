@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { io } from "socket.io-client";
+import { Quicksand } from 'next/font/google';
+import { TournamentFormat, TournamentStatus, TournamentSummary } from '@/types';
+import { GameSocket, TOURNAMENT_FORMATS } from '@/lib/protocol';
+import { loadPlayer } from '@/lib/storage';
+
+const quicksand = Quicksand({ subsets: ['latin'], weight: ['400', '700'] });
+
+// Match lengths the server accepts (BEST_OF_OPTIONS in server/tournaments.ts)
+const BEST_OF_OPTIONS = [1, 3, 5, 7];
+
+export const FORMAT_LABELS: { [F in TournamentFormat]: string } = {
+    single_elimination: 'Single elimination',
+    round_robin: 'Round robin',
+};
+
+export const STATUS_LABELS: { [S in TournamentStatus]: string } = {
+    registering: 'Open for registration',
+    in_progress: 'In progress',
+    finished: 'Finished',
+};
+
+const Tournaments: React.FC = () => {
+    const router = useRouter();
+    const [socket, setSocket] = useState<GameSocket | null>(null);
+    const [tournaments, setTournaments] = useState<TournamentSummary[] | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [createError, setCreateError] = useState<string | null>(null);
+    const [hasPlayer, setHasPlayer] = useState<boolean>(false);
+    const [name, setName] = useState<string>('');
+    const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+    const [bestOf, setBestOf] = useState<number>(3);
+
+    useEffect(() => {
+        const serverUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3001";
+        fetch(`${serverUrl}/api/tournaments`)
+            .then(res => {
+                if (!res.ok) throw new Error(`Server responded ${res.status}`);
+                return res.json();
+            })
+            .then((data: { tournaments: TournamentSummary[] }) => setTournaments(data.tournaments))
+            .catch(err => {
+                console.error("Failed to load tournaments:", err);
+                setLoadError("Couldn't load the tournaments. The server might be asleep, try again in a minute!");
+            });
+    }, []);
+
+    // Organizing a tournament needs a nickname, so the socket identifies before anything else
+    useEffect(() => {
+        const storedPlayer = loadPlayer();
+        setHasPlayer(!!storedPlayer);
+        if (!storedPlayer) return;
+
+        const serverUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3001";
+        const newSocket: GameSocket = io(serverUrl);
+        setSocket(newSocket);
+        newSocket.on('connect', () => newSocket.emit('identify_player', storedPlayer));
+        newSocket.on('identity_error', ({ message }) => setCreateError(message));
+        newSocket.on('tournament_error', ({ message }) => setCreateError(message));
+        newSocket.on('tournament_created', ({ tournamentId }) => router.push(`/tournaments/${tournamentId}`));
+        return () => {
+            newSocket.disconnect();
+        };
+    }, [router]);
+
+    const handleCreate = () => {
+        setCreateError(null);
+        socket?.emit('create_tournament', { name: name.trim(), format, bestOf });
+    };
+
+    return (
+        <div className="flex flex-col items-center min-h-screen p-4 bg-blue-50">
+            <h1 className={`text-3xl sm:text-4xl font-extrabold mb-6 text-gray-800 ${quicksand.className} text-center`}>
+                Tournaments
+            </h1>
+
+            <div className="p-4 mb-6 bg-white rounded-lg shadow-lg border border-gray-300 max-w-2xl w-full text-gray-800">
+                <h3 className="text-lg font-semibold mb-2 text-gray-700">Organize a Tournament</h3>
+                {!hasPlayer ? (
+                    <p className="text-gray-600">Pick a nickname on the start screen to organize or enter tournaments.</p>
+                ) : (
+                    <div className="flex flex-col sm:flex-row flex-wrap items-center gap-2">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Tournament name"
+                            maxLength={40}
+                            className="w-full sm:w-56 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-700 text-gray-800"
+                        />
+                        <select
+                            value={format}
+                            onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+                            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-gray-800"
+                        >
+                            {TOURNAMENT_FORMATS.map(option => (
+                                <option key={option} value={option}>{FORMAT_LABELS[option]}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={bestOf}
+                            onChange={(e) => setBestOf(Number(e.target.value))}
+                            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-gray-800"
+                        >
+                            {BEST_OF_OPTIONS.map(option => (
+                                <option key={option} value={option}>{option === 1 ? 'Single game' : `Best of ${option}`}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleCreate}
+                            disabled={!socket || !name.trim()}
+                            className="px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700 disabled:bg-gray-400 transition-colors duration-200 font-semibold"
+                        >
+                            Create
+                        </button>
+                    </div>
+                )}
+                {createError && <p className="mt-2 text-red-600 text-sm font-semibold">{createError}</p>}
+            </div>
+
+            {loadError && <p className="mb-4 text-red-600 font-semibold">{loadError}</p>}
+            {!tournaments && !loadError && <p className="text-gray-600">Loading...</p>}
+            {tournaments && tournaments.length === 0 && (
+                <p className="text-gray-600">No tournaments yet. Organize the first one!</p>
+            )}
+
+            {tournaments && tournaments.length > 0 && (
+                <table className="w-full max-w-2xl bg-white rounded-lg shadow-lg border border-gray-300 text-left text-gray-800">
+                    <thead className="bg-gray-100 text-sm text-gray-600">
+                        <tr>
+                            <th className="px-3 py-2">Name</th>
+                            <th className="px-3 py-2">Format</th>
+                            <th className="px-3 py-2">Players</th>
+                            <th className="px-3 py-2">Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {tournaments.map(tournament => (
+                            <tr key={tournament.tournamentId} className="border-t border-gray-200">
+                                <td className="px-3 py-2 font-semibold">
+                                    <Link href={`/tournaments/${tournament.tournamentId}`} className="text-indigo-700 underline hover:text-indigo-900">
+                                        {tournament.name}
+                                    </Link>
+                                </td>
+                                <td className="px-3 py-2">
+                                    {FORMAT_LABELS[tournament.format]}{tournament.bestOf > 1 ? `, best of ${tournament.bestOf}` : ''}
+                                </td>
+                                <td className="px-3 py-2">{tournament.entrantCount}</td>
+                                <td className="px-3 py-2">{STATUS_LABELS[tournament.status]}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <Link href="/" className="mt-6 px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 transition duration-200">
+                Back to the Game
+            </Link>
+        </div>
+    );
+};
+
+export default Tournaments;
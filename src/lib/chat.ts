@@ -0,0 +1,15 @@
+// Chat limits and canned reactions, shared so the client can enforce the same rules the
+// server does before sending.
+
+export const CHAT_MAX_LENGTH = 200;
+// Only the most recent messages are kept with a game
+export const CHAT_HISTORY_LIMIT = 100;
+
+export const QUICK_REACTIONS = [
+    'Nice!',
+    'Sabotaged!',
+    'Good game!',
+    'Oops!',
+    'Well played!',
+    'Hmm...',
+];
@@ -0,0 +1,92 @@
+import { ClockView, GameClock, Player, PlayerColor, RulesState, TimeControl } from '../types';
+import { isActivePhase } from './rules';
+
+// Turn clocks. Pure helpers like the rules engine: the server owns the timestamps and
+// decides when a flag has fallen, clients only count down the snapshot they were sent.
+
+// Allowed ranges for a time control (inclusive, in seconds)
+export const TIME_CONTROL_LIMITS = {
+    perMoveSeconds: { min: 5, max: 300 },
+    totalSeconds: { min: 30, max: 3600 },
+    incrementSeconds: { min: 0, max: 60 },
+};
+
+const inRange = (value: number, { min, max }: { min: number, max: number }): boolean => {
+    return Number.isInteger(value) && value >= min && value <= max;
+};
+
+// Checks a client-supplied time control. Returns an error message, or null if it's usable.
+export const validateTimeControl = (control: TimeControl): string | null => {
+    if (!control || typeof control !== 'object') return "Invalid time control.";
+    if (control.kind === 'per_move') {
+        const { min, max } = TIME_CONTROL_LIMITS.perMoveSeconds;
+        return inRange(control.seconds, TIME_CONTROL_LIMITS.perMoveSeconds) ? null : `Time per move must be ${min} to ${max} seconds.`;
+    }
+    if (control.kind === 'total') {
+        const { min, max } = TIME_CONTROL_LIMITS.totalSeconds;
+        if (!inRange(control.seconds, TIME_CONTROL_LIMITS.totalSeconds)) return `Game time must be ${min} to ${max} seconds.`;
+        const inc = TIME_CONTROL_LIMITS.incrementSeconds;
+        return inRange(control.incrementSeconds, inc) ? null : `Increment must be ${inc.min} to ${inc.max} seconds.`;
+    }
+    return "Invalid time control.";
+};
+
+// Only the fields of the control's kind, like copySabotageRules
+export const copyTimeControl = (control: TimeControl): TimeControl => {
+    return control.kind === 'per_move'
+        ? { kind: 'per_move', seconds: control.seconds }
+        : { kind: 'total', seconds: control.seconds, incrementSeconds: control.incrementSeconds };
+};
+
+export const createClock = (control: TimeControl): GameClock => ({
+    control,
+    remainingMs: { red: control.seconds * 1000, yellow: control.seconds * 1000 },
+    runningFor: null,
+    turnStartedAt: null,
+});
+
+// Whose clock should be running for this state, if anyone's
+export const clockRunner = (state: RulesState): Player => {
+    return isActivePhase(state.gamePhase) ? state.currentPlayer : null;
+};
+
+// Time `player` has left at `now`
+export const timeLeft = (clock: GameClock, player: PlayerColor, now: number): number => {
+    const elapsed = clock.runningFor === player && clock.turnStartedAt !== null ? now - clock.turnStartedAt : 0;
+    return Math.max(0, clock.remainingMs[player] - elapsed);
+};
+
+// Charges the running player for the time used so far and hands the clock to `runner`.
+// A turn only ends when the runner changes: a player who keeps the move (e.g. picking a new
+// Sabotage Space after an opponent trigger) keeps their clock running.
+export const advanceClock = (clock: GameClock, runner: Player, now: number): GameClock => {
+    const previous = clock.runningFor;
+    const remainingMs = { ...clock.remainingMs };
+    if (previous) remainingMs[previous] = timeLeft(clock, previous, now);
+
+    if (previous && previous !== runner) {
+        if (clock.control.kind === 'per_move') remainingMs[previous] = clock.control.seconds * 1000; // Ready for their next turn
+        else remainingMs[previous] += clock.control.incrementSeconds * 1000;
+    }
+
+    return { ...clock, remainingMs, runningFor: runner, turnStartedAt: runner ? now : null };
+};
+
+export const buildClockView = (clock: GameClock, now: number): ClockView => ({
+    control: clock.control,
+    remainingMs: { red: timeLeft(clock, 'red', now), yellow: timeLeft(clock, 'yellow', now) },
+    runningFor: clock.runningFor,
+});
+
+// "m:ss", or "s.t" in the last ten seconds
+export const formatClockTime = (ms: number): string => {
+    if (ms < 10000) return (Math.floor(ms / 100) / 10).toFixed(1);
+    const totalSeconds = Math.ceil(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+export const describeTimeControl = (control: TimeControl): string => {
+    if (control.kind === 'per_move') return `${control.seconds}s per move`;
+    const minutes = control.seconds % 60 === 0 ? `${control.seconds / 60} min` : `${control.seconds}s`;
+    return `${minutes} + ${control.incrementSeconds}s`;
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { buildPlayerView, buildPublicView, createGameState } from './gameState';
+
+describe('buildPlayerView', () => {
+    const game = {
+        ...createGameState(),
+        players: { 'socket-red': 'red' as const },
+        playerSockets: { red: 'socket-red', yellow: null },
+    };
+
+    it('shows which seats are taken without any socket ids', () => {
+        for (const view of [buildPlayerView(game, 'red', 0), buildPlayerView(game, null, 1), buildPublicView(game, 1)]) {
+            expect(view.seated).toEqual({ red: true, yellow: false });
+            expect(JSON.stringify(view)).not.toContain('socket-red');
+        }
+    });
+
+    it('tells the recipient their own color', () => {
+        expect(buildPlayerView(game, 'red', 0).viewerColor).toBe('red');
+        expect(buildPlayerView(game, null, 0).viewerColor).toBeNull();
+    });
+});
@@ -0,0 +1,133 @@
+import { BoardConfig, GameState, Player, PlayerColor, PlayerGameView, PublicGameView, PublicPlayer, SabotageRules, SabotageSpot, SeatIdentity } from '../types';
+import { applyAction, createRulesState, DEFAULT_BOARD_CONFIG, DEFAULT_SABOTAGE_RULES, isActivePhase } from './rules';
+import { buildClockView } from './clock';
+
+// Helpers for the full GameState (rules state plus seats), shared by the server and the
+// client's offline pass-and-play mode.
+
+// A fresh game with empty seats, ready for Red to pick the first Sabotage Space
+export const createGameState = (config: BoardConfig = DEFAULT_BOARD_CONFIG, rules: SabotageRules = DEFAULT_SABOTAGE_RULES): GameState => ({
+    ...createRulesState(config, rules),
+    players: {},
+    playerSockets: { red: null, yellow: null },
+    rematchRequested: { red: false, yellow: false },
+    sessionTokens: { red: null, yellow: null },
+    disconnected: { red: false, yellow: false },
+    history: [],
+    computer: null,
+    clock: null,
+    createdAt: Date.now(),
+    chat: [],
+    identities: { red: null, yellow: null },
+    takebackRequestedBy: null,
+    tournament: null,
+    series: null,
+});
+
+// --- Takebacks ---
+// Index of the history entry a takeback by `player` rewinds to: their latest drop, as long as
+// the opponent hasn't dropped a piece since. -1 if there's nothing they can take back.
+export const findTakebackIndex = (game: GameState, player: PlayerColor): number => {
+    if (!isActivePhase(game.gamePhase)) return -1;
+    for (let i = game.history.length - 1; i >= 0; i--) {
+        const placed = game.history[i].events.find(event => event.type === 'piece_placed');
+        if (placed) return placed.player === player ? i : -1;
+    }
+    return -1;
+};
+
+// The game as it was before history entry `index`, rebuilt by replaying everything before it
+// through the rules engine. That undoes every side effect of the later moves: flipped pieces,
+// used-up and pending Sabotage Spaces, and any draw offer.
+export const rewindGame = (game: GameState, index: number): GameState => {
+    const history = game.history.slice(0, index);
+    let state = createRulesState(game.config, game.rules);
+    for (const entry of history) {
+        const result = applyAction(state, entry.action);
+        if ('error' in result) throw new Error(`Cannot rewind game: ${result.error}`);
+        state = result.state;
+    }
+    return { ...game, ...state, history, drawOfferedBy: null, takebackRequestedBy: null };
+};
+
+const toPublicPlayer = (identity: SeatIdentity | null): PublicPlayer | null => {
+    return identity && { nickname: identity.nickname, rating: identity.rating };
+};
+
+// --- Redaction ---
+// Builds the view of a game that one recipient is allowed to see. Each player only gets
+// their own Sabotage Spaces; spectators get neither. All are revealed at game_over, and
+// triggered spots earlier if the game's rules say so.
+export const buildPlayerView = (game: GameState, viewerColor: Player, spectatorCount: number): PlayerGameView => {
+    const isGameOver = game.gamePhase === 'game_over';
+    let mySabotage: SabotageSpot[] = [];
+    if (viewerColor === 'red') mySabotage = game.redSabotage;
+    else if (viewerColor === 'yellow') mySabotage = game.yellowSabotage;
+
+    // Own-sabotage triggers are private (they'd give away where the spot was), but an
+    // opponent trigger is already public because everyone sees the piece flip color. With
+    // immediate own reselects the selection phase itself gives the trigger away.
+    const triggerIsPublic = game.gamePhase === 'sabotage_select_red' || game.gamePhase === 'sabotage_select_yellow';
+
+    return {
+        config: game.config,
+        rules: game.rules,
+        board: game.board,
+        seated: { red: !!game.playerSockets.red, yellow: !!game.playerSockets.yellow },
+        viewerColor,
+        currentPlayer: game.currentPlayer,
+        winner: game.winner,
+        isDraw: game.isDraw,
+        gamePhase: game.gamePhase,
+        mySabotage,
+        revealedSabotage: isGameOver ? { red: game.redSabotage, yellow: game.yellowSabotage } : null,
+        triggeredSpots: isGameOver || game.rules.revealTriggered ? game.triggeredSpots : [],
+        overlapJustTriggered: game.overlapJustTriggered,
+        sabotageTriggeredBy: isGameOver || triggerIsPublic ? game.sabotageTriggeredBy : null,
+        rematchRequested: game.rematchRequested,
+        disconnected: game.disconnected,
+        spectatorCount,
+        computer: game.computer,
+        history: isGameOver ? game.history : null,
+        myPendingReselect: viewerColor ? game.pendingReselect[viewerColor] : false,
+        clock: game.clock && buildClockView(game.clock, Date.now()),
+        chat: game.chat,
+        identities: { red: toPublicPlayer(game.identities.red), yellow: toPublicPlayer(game.identities.yellow) },
+        drawOfferedBy: game.drawOfferedBy,
+        takebackRequestedBy: game.takebackRequestedBy,
+        canRequestTakeback: !!viewerColor && findTakebackIndex(game, viewerColor) >= 0,
+        tournament: game.tournament,
+        series: game.series,
+    };
+};
+
+// For the HTTP API: the spectator view, copied field by field so nothing seat-specific comes along
+export const buildPublicView = (game: GameState, spectatorCount: number): PublicGameView => {
+    const view = buildPlayerView(game, null, spectatorCount);
+    return {
+        config: view.config,
+        rules: view.rules,
+        board: view.board,
+        seated: view.seated,
+        currentPlayer: view.currentPlayer,
+        winner: view.winner,
+        isDraw: view.isDraw,
+        gamePhase: view.gamePhase,
+        revealedSabotage: view.revealedSabotage,
+        triggeredSpots: view.triggeredSpots,
+        overlapJustTriggered: view.overlapJustTriggered,
+        sabotageTriggeredBy: view.sabotageTriggeredBy,
+        rematchRequested: view.rematchRequested,
+        disconnected: view.disconnected,
+        spectatorCount: view.spectatorCount,
+        computer: view.computer,
+        history: view.history,
+        clock: view.clock,
+        chat: view.chat,
+        identities: view.identities,
+        drawOfferedBy: view.drawOfferedBy,
+        takebackRequestedBy: view.takebackRequestedBy,
+        tournament: view.tournament,
+        series: view.series,
+    };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types';
+import { buildPlayerView, createGameState } from './gameState';
+import { describeGameStatus } from './gameStatus';
+
+const viewOf = (changes: Partial<GameState>, viewer: 'red' | 'yellow' | null = 'red') => {
+    return buildPlayerView({ ...createGameState(), ...changes }, viewer, 0);
+};
+
+describe('describeGameStatus', () => {
+    it('asks for the game ID to be shared, except in tournaments', () => {
+        expect(describeGameStatus(viewOf({ gamePhase: 'waiting_for_opponent' }), false)).toEqual({ kind: 'share_game_id' });
+        const tournament = { tournamentId: 't1', matchId: 'r1m1', matchDecided: false };
+        expect(describeGameStatus(viewOf({ gamePhase: 'waiting_for_opponent', tournament }), false))
+            .toEqual({ kind: 'text', text: "Waiting for your opponent to take their seat..." });
+    });
+
+    it('says whose turn it is, and when a delayed reselect comes first', () => {
+        expect(describeGameStatus(viewOf({ gamePhase: 'playing', currentPlayer: 'red' }), false))
+            .toEqual({ kind: 'your_turn', color: 'red', reselect: false });
+        expect(describeGameStatus(viewOf({ gamePhase: 'playing', currentPlayer: 'red', pendingReselect: { red: true, yellow: false } }), false))
+            .toEqual({ kind: 'your_turn', color: 'red', reselect: true });
+        expect(describeGameStatus(viewOf({ gamePhase: 'playing', currentPlayer: 'yellow' }), false))
+            .toEqual({ kind: 'waiting_for', color: 'yellow' });
+    });
+
+    it('puts a dropped opponent first', () => {
+        const view = viewOf({ gamePhase: 'playing', currentPlayer: 'red', disconnected: { red: false, yellow: true } });
+        expect(describeGameStatus(view, false)).toEqual({ kind: 'opponent_disconnected' });
+    });
+
+    it('says how the game ended', () => {
+        const history = [{ action: { type: 'resign' as const, player: 'yellow' as const }, events: [], at: 0 }];
+        expect(describeGameStatus(viewOf({ gamePhase: 'game_over', winner: 'red', history }), false))
+            .toEqual({ kind: 'won', text: "Player Red Wins by resignation!  (You)" });
+        expect(describeGameStatus(viewOf({ gamePhase: 'game_over', isDraw: true }, null), false))
+            .toEqual({ kind: 'drawn', text: "It's a Draw!" });
+    });
+});
@@ -0,0 +1,67 @@
+import { PlayerColor, PlayerGameView } from '../types';
+import { getOpponent } from './rules';
+
+// The line under the board: whose turn it is, what the viewer should do next, or how the game
+// ended. Shared by the web and terminal clients, which each render it in their own style (the
+// kinds that aren't plain text are the ones they color or lay out differently).
+
+export type GameStatus =
+    | { kind: 'text', text: string }
+    | { kind: 'opponent_disconnected' }
+    | { kind: 'share_game_id' } // Waiting for a friend to join with the game's ID
+    | { kind: 'your_turn', color: PlayerColor, reselect: boolean } // reselect: a delayed reselect comes before the drop
+    | { kind: 'waiting_for', color: PlayerColor }
+    | { kind: 'won', text: string }
+    | { kind: 'drawn', text: string };
+
+const colorName = (player: PlayerColor) => player === 'red' ? 'Red' : 'Yellow';
+
+export const describeGameStatus = (view: PlayerGameView, isSpectating: boolean): GameStatus => {
+    const { gamePhase, currentPlayer, winner, isDraw, overlapJustTriggered, myPendingReselect, viewerColor: me } = view;
+    const playerString = currentPlayer === 'red' ? "Red" : "Yellow";
+    const myTurn = currentPlayer === me;
+    // With several Sabotage Spaces each, say how many picks are left (we only know our own)
+    const spotsLeft = view.rules.spotsPerPlayer - view.mySabotage.length;
+    const countNote = myTurn && view.rules.spotsPerPlayer > 1 && spotsLeft > 0 ? ` (${spotsLeft} to go)` : '';
+    const text = (line: string): GameStatus => ({ kind: 'text', text: line });
+
+    if (me && view.disconnected[getOpponent(me)] && gamePhase !== 'game_over') {
+        return { kind: 'opponent_disconnected' };
+    }
+    if (view.computer && currentPlayer === view.computer.color && gamePhase !== 'game_over') {
+        return text(`Computer (${playerString}) is thinking...`);
+    }
+    if (isSpectating && gamePhase === 'waiting_for_opponent') {
+        return text("Watching: waiting for a second player to join...");
+    }
+
+    switch (gamePhase) {
+        case 'waiting_for_opponent':
+            // Tournament opponents are seated by the server, there's no ID to hand out
+            return view.tournament ? text("Waiting for your opponent to take their seat...") : { kind: 'share_game_id' };
+        case 'init_select_red':
+            return text(me === 'red' ? `Your turn (Red): Select your Sabotage Space${countNote}` : "Waiting for Red to select Sabotage Space");
+        case 'init_select_yellow':
+            return text(me === 'yellow' ? `Your turn (Yellow): Select your Sabotage Space${countNote}` : "Waiting for Yellow to select Sabotage Space");
+        case 'sabotage_select_red':
+        case 'sabotage_select_yellow': {
+            const selecting: PlayerColor = gamePhase === 'sabotage_select_red' ? 'red' : 'yellow';
+            const prefix = me === selecting ? `Your turn (${colorName(selecting)}):` : `Waiting for ${colorName(selecting)}:`;
+            return text(overlapJustTriggered ? `${prefix} Overlap triggered! Select new Sabotage.` : `${prefix} Select a NEW Sabotage Space${countNote}.`);
+        }
+        case 'playing':
+            if (myTurn && me) return { kind: 'your_turn', color: me, reselect: myPendingReselect };
+            return { kind: 'waiting_for', color: currentPlayer === 'red' ? 'red' : 'yellow' };
+        case 'game_over': {
+            const endedBy = view.history?.[view.history.length - 1]?.action.type;
+            const howWon = endedBy === 'time_out' ? " on time" : endedBy === 'resign' ? " by resignation" : "";
+            if (winner) {
+                const who = me ? (winner === me ? " (You)" : (view.computer ? " (Computer)" : " (Opponent)")) : "";
+                return { kind: 'won', text: `Player ${colorName(winner)} Wins${howWon}! ${who}` };
+            }
+            if (isDraw) return { kind: 'drawn', text: endedBy === 'accept_draw' ? "Draw agreed!" : "It's a Draw!" };
+            return text("Game Over");
+        }
+        default: return text("");
+    }
+};
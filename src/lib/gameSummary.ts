@@ -0,0 +1,84 @@
+import { Board, BoardConfig, Cell, HistoryEntry, PlayerColor } from '../types';
+import { findWinningLine, getOpponent } from './rules';
+
+// What happened with sabotage over a finished game, rebuilt from its history. Only use this
+// on a history that is allowed to be seen in full (game_over): it contains every spot.
+
+// A Sabotage Space someone picked, and the drop that triggered it (if any)
+export interface SpotRecord {
+    owner: PlayerColor;
+    row: number;
+    col: number;
+    pickedOnMove: number; // Drops made before it was picked (0 = before the first drop)
+    triggeredOnMove: number | null;
+}
+
+export type TimelineEntry =
+    | { type: 'flipped', move: number, player: PlayerColor, spotOwner: PlayerColor, row: number, col: number }
+    | { type: 'own_trigger', move: number, player: PlayerColor, row: number, col: number }
+    | { type: 'overlap', move: number, player: PlayerColor, row: number, col: number }
+    | { type: 'reselect', move: number, player: PlayerColor, row: number, col: number };
+
+export interface GameSummary {
+    spots: SpotRecord[];
+    flippedCells: Cell[]; // Pieces that ended up the other player's color
+    winningLine: Cell[] | null; // Only for games won by connecting
+    flippedInWinningLine: number;
+    timeline: TimelineEntry[];
+}
+
+export const summarizeGame = (history: HistoryEntry[], board: Board, config: BoardConfig): GameSummary => {
+    const spots: SpotRecord[] = [];
+    const flippedCells: Cell[] = [];
+    const timeline: TimelineEntry[] = [];
+    let move = 0;
+    let lastDrop: { row: number, col: number, piece: PlayerColor } | null = null;
+    let winner: PlayerColor | null = null;
+
+    const markTriggered = (owner: PlayerColor, row: number, col: number) => {
+        const spot = spots.find(s => s.owner === owner && s.row === row && s.col === col && s.triggeredOnMove === null);
+        if (spot) spot.triggeredOnMove = move;
+    };
+
+    for (const { events } of history) {
+        for (const event of events) {
+            switch (event.type) {
+                case 'sabotage_selected':
+                    spots.push({ owner: event.player, row: event.row, col: event.col, pickedOnMove: move, triggeredOnMove: null });
+                    if (move > 0) timeline.push({ type: 'reselect', move, player: event.player, row: event.row, col: event.col });
+                    break;
+                case 'piece_placed':
+                    move++;
+                    lastDrop = { row: event.row, col: event.col, piece: event.piece };
+                    if (event.piece !== event.player) flippedCells.push({ row: event.row, col: event.col });
+                    break;
+                case 'opponent_sabotage_triggered':
+                    markTriggered(event.spotOwner, event.row, event.col);
+                    timeline.push({ type: 'flipped', move, player: event.player, spotOwner: event.spotOwner, row: event.row, col: event.col });
+                    break;
+                case 'own_sabotage_triggered':
+                    markTriggered(event.player, event.row, event.col);
+                    timeline.push({ type: 'own_trigger', move, player: event.player, row: event.row, col: event.col });
+                    break;
+                case 'overlap_triggered':
+                    markTriggered(event.player, event.row, event.col);
+                    markTriggered(getOpponent(event.player), event.row, event.col);
+                    timeline.push({ type: 'overlap', move, player: event.player, row: event.row, col: event.col });
+                    break;
+                case 'game_won':
+                    winner = event.winner;
+                    break;
+            }
+        }
+    }
+
+    // A connect win is always completed by the final drop
+    const lastEvents = history[history.length - 1]?.events ?? [];
+    const wonByDrop = !!winner && !!lastDrop && lastDrop.piece === winner && lastEvents.some(e => e.type === 'piece_placed');
+    const winningLine = wonByDrop && lastDrop ? findWinningLine(board, winner, lastDrop.row, lastDrop.col, config.connect) : null;
+    const flippedInWinningLine = winningLine
+        ? winningLine.filter(cell => flippedCells.some(f => f.row === cell.row && f.col === cell.col)).length
+        : 0;
+
+    return { spots, flippedCells, winningLine, flippedInWinningLine, timeline };
+};
@@ -0,0 +1,298 @@
+import { BoardConfig, GameAction, GameEvent, HistoryEntry, PlayerColor, RulesState, SabotageRules } from '../types';
+import { applyAction, createRulesState, DEFAULT_BOARD_CONFIG, DEFAULT_SABOTAGE_RULES, isClassicBoard, isDefaultRules, validateBoardConfig, validateSabotageRules } from './rules';
+
+/*
+ * Game records ("SCN", Sabotage Connect 4 Notation)
+ *
+ * A record is a block of PGN-style headers followed by a move list:
+ *
+ *     [Event "Rohans Perfect Connect 4"]
+ *     [Date "2026.10.19"]
+ *     [Result "1-0"]
+ *
+ *     R@a1 Y@g6 Rd Yd Rc Yb! ... Rd 1-0
+ *
+ * Headers are `[Key "Value"]`, one per line. `Result` is required and must match the moves.
+ * Games on a non-classic board also carry `[Board "9x8"]` (columns x rows) and
+ * `[Connect "5"]`; without them the record is read as the classic 7x6, connect 4 board.
+ * Games with a rule variant carry `[Rules "..."]`, a comma-separated list of what differs
+ * from the original rules: `spots=2`, `empty`, `own=immediate`, `overlap=flip`, `reveal`.
+ *
+ * Cells are a column letter (a = leftmost) and a row number (1 = bottom row), like chess.
+ * Every move token starts with the player, R or Y:
+ *
+ *     R@c3   Red selects c3 as their Sabotage Space (initial pick or any reselect)
+ *     Rd     Red drops a piece in column d
+ *     Rd!    ... and it landed on Yellow's Sabotage Space, so the piece turned Yellow
+ *     Rd?    ... and it landed on Red's own Sabotage Space (Red reselects)
+ *     Rd=    ... and both Sabotage Spaces were there (overlap, both reselect)
+ *     R~     Red starts a delayed reselect instead of dropping a piece
+ *     R#     Red ran out of time (and loses)
+ *     R%     Red resigns
+ *     R(=)   Red offers a draw (open until Yellow drops a piece)
+ *     Y=     Yellow accepts the draw offer
+ *
+ * The list ends with the result: 1-0 (Red wins), 0-1 (Yellow wins), 1/2-1/2 (draw) or
+ * * (unfinished). The parser is strict: it replays every move through the rules engine and
+ * rejects the record if a move is illegal or an annotation doesn't match what happened.
+ */
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface ParsedGameRecord {
+    headers: { [key: string]: string };
+    history: HistoryEntry[];
+    config: BoardConfig;
+    rules: SabotageRules;
+    state: RulesState;
+    result: GameResult;
+}
+
+const COLUMN_LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const playerLetter = (player: PlayerColor) => player === 'red' ? 'R' : 'Y';
+
+// "c3": column letter and row number counted from the bottom
+export const formatCell = (config: BoardConfig, row: number, col: number) => `${COLUMN_LETTERS[col]}${config.rows - row}`;
+
+const CELL_PATTERN = /^([a-z])(\d+)$/;
+
+// The other way round: "c3" to a board position, or null if it isn't a cell on this board
+export const parseCell = (config: BoardConfig, text: string): { row: number, col: number } | null => {
+    const match = CELL_PATTERN.exec(text);
+    if (!match) return null;
+    const col = COLUMN_LETTERS.indexOf(match[1]);
+    const row = config.rows - Number(match[2]);
+    if (col < 0 || col >= config.cols || row < 0 || row >= config.rows) return null;
+    return { row, col };
+};
+
+// Suffix describing what a drop triggered
+const dropSuffix = (events: GameEvent[]): string => {
+    if (events.some(e => e.type === 'opponent_sabotage_triggered')) return '!';
+    if (events.some(e => e.type === 'own_sabotage_triggered')) return '?';
+    if (events.some(e => e.type === 'overlap_triggered')) return '=';
+    return '';
+};
+
+const resultOf = (state: RulesState): GameResult => {
+    if (state.gamePhase !== 'game_over') return '*';
+    if (state.winner === 'red') return '1-0';
+    if (state.winner === 'yellow') return '0-1';
+    return '1/2-1/2';
+};
+
+const formatEntry = (config: BoardConfig, entry: HistoryEntry): string => {
+    const { action, events } = entry;
+    const player = playerLetter(action.player);
+    if (action.type === 'select_sabotage') return `${player}@${formatCell(config, action.row, action.col)}`;
+    if (action.type === 'time_out') return `${player}#`;
+    if (action.type === 'resign') return `${player}%`;
+    if (action.type === 'offer_draw') return `${player}(=)`;
+    if (action.type === 'accept_draw') return `${player}=`;
+    if (events.some(e => e.type === 'reselect_started')) return `${player}~`;
+    return `${player}${COLUMN_LETTERS[action.col]}${dropSuffix(events)}`;
+};
+
+// The value of a [Rules] header: only what differs from the original rules
+const formatRules = (rules: SabotageRules): string => {
+    const parts: string[] = [];
+    if (rules.spotsPerPlayer !== DEFAULT_SABOTAGE_RULES.spotsPerPlayer) parts.push(`spots=${rules.spotsPerPlayer}`);
+    if (rules.emptyCellsOnly) parts.push('empty');
+    if (rules.ownTrigger !== DEFAULT_SABOTAGE_RULES.ownTrigger) parts.push(`own=${rules.ownTrigger}`);
+    if (rules.overlap !== DEFAULT_SABOTAGE_RULES.overlap) parts.push(`overlap=${rules.overlap}`);
+    if (rules.revealTriggered) parts.push('reveal');
+    return parts.join(',');
+};
+
+// Formats "YYYY.MM.DD" the way PGN dates look
+export const formatRecordDate = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+// --- Serializer ---
+export const formatGameRecord = (
+    history: HistoryEntry[],
+    headers: { [key: string]: string } = {},
+    config: BoardConfig = DEFAULT_BOARD_CONFIG,
+    rules: SabotageRules = DEFAULT_SABOTAGE_RULES,
+): string => {
+    let state = createRulesState(config, rules);
+    for (const entry of history) {
+        const result = applyAction(state, entry.action);
+        if ('error' in result) break;
+        state = result.state;
+    }
+    const result = resultOf(state);
+
+    const allHeaders: { [key: string]: string } = {
+        Event: 'Rohans Perfect Connect 4',
+        Date: formatRecordDate(history.length ? new Date(history[0].at) : new Date()),
+        ...headers,
+    };
+    if (!isClassicBoard(config)) {
+        allHeaders.Board = `${config.cols}x${config.rows}`;
+        allHeaders.Connect = String(config.connect);
+    }
+    if (!isDefaultRules(rules)) allHeaders.Rules = formatRules(rules);
+    allHeaders.Result = result;
+    const headerLines = Object.entries(allHeaders).map(([key, value]) => `[${key} "${value.replace(/"/g, "'")}"]`);
+
+    // Wrap the move list so records stay readable when pasted into chat
+    const tokens = [...history.map(entry => formatEntry(config, entry)), result];
+    const lines: string[] = [];
+    let line = '';
+    for (const token of tokens) {
+        if (line && line.length + token.length + 1 > 80) {
+            lines.push(line);
+            line = '';
+        }
+        line = line ? `${line} ${token}` : token;
+    }
+    if (line) lines.push(line);
+
+    return `${headerLines.join('\n')}\n\n${lines.join('\n')}\n`;
+};
+
+// --- Parser ---
+const HEADER_PATTERN = /^\[(\w+)\s+"([^"]*)"\]$/;
+const BOARD_PATTERN = /^(\d+)x(\d+)$/;
+const SELECT_PATTERN = /^([RY])@([a-z]\d+)$/;
+const DROP_PATTERN = /^([RY])([a-z])([!?=]?)$/;
+const RESELECT_PATTERN = /^([RY])~$/;
+const TIME_OUT_PATTERN = /^([RY])#$/;
+const RESIGN_PATTERN = /^([RY])%$/;
+const DRAW_OFFER_PATTERN = /^([RY])\(=\)$/;
+const DRAW_ACCEPT_PATTERN = /^([RY])=$/;
+
+const parsePlayer = (letter: string): PlayerColor => letter === 'R' ? 'red' : 'yellow';
+
+// Board settings from the headers; records without them are on the classic board
+const parseBoardConfig = (headers: { [key: string]: string }): BoardConfig | { error: string } => {
+    if (headers.Board === undefined && headers.Connect === undefined) return DEFAULT_BOARD_CONFIG;
+    const match = BOARD_PATTERN.exec(headers.Board ?? `${DEFAULT_BOARD_CONFIG.cols}x${DEFAULT_BOARD_CONFIG.rows}`);
+    if (!match) return { error: `Malformed [Board] header "${headers.Board}", expected e.g. "7x6".` };
+    const config = {
+        cols: Number(match[1]),
+        rows: Number(match[2]),
+        connect: headers.Connect === undefined ? DEFAULT_BOARD_CONFIG.connect : Number(headers.Connect),
+    };
+    const error = validateBoardConfig(config);
+    return error ? { error } : config;
+};
+
+// Rule variant from the headers; records without one use the original rules
+const parseRules = (headers: { [key: string]: string }): SabotageRules | { error: string } => {
+    if (headers.Rules === undefined) return DEFAULT_SABOTAGE_RULES;
+    const rules: SabotageRules = { ...DEFAULT_SABOTAGE_RULES };
+    for (const part of headers.Rules.split(',').map(p => p.trim()).filter(Boolean)) {
+        const [key, value] = part.split('=');
+        if (key === 'spots' && value !== undefined) rules.spotsPerPlayer = Number(value);
+        else if (key === 'empty' && value === undefined) rules.emptyCellsOnly = true;
+        else if (key === 'own' && value !== undefined) rules.ownTrigger = value as SabotageRules['ownTrigger'];
+        else if (key === 'overlap' && value !== undefined) rules.overlap = value as SabotageRules['overlap'];
+        else if (key === 'reveal' && value === undefined) rules.revealTriggered = true;
+        else return { error: `Unknown rule "${part}" in the [Rules] header.` };
+    }
+    const error = validateSabotageRules(rules);
+    return error ? { error } : rules;
+};
+
+const parseToken = (config: BoardConfig, token: string): { action: GameAction, suffix: string | null } | null => {
+    let match = SELECT_PATTERN.exec(token);
+    if (match) {
+        const cell = parseCell(config, match[2]);
+        if (!cell) return null;
+        return { action: { type: 'select_sabotage', player: parsePlayer(match[1]), ...cell }, suffix: null };
+    }
+    match = DROP_PATTERN.exec(token);
+    if (match) {
+        const col = COLUMN_LETTERS.indexOf(match[2]);
+        if (col < 0 || col >= config.cols) return null;
+        return { action: { type: 'make_move', player: parsePlayer(match[1]), col }, suffix: match[3] };
+    }
+    match = RESELECT_PATTERN.exec(token);
+    if (match) {
+        // A reselect start is a drop attempt while a reselect is pending; the column is unused
+        return { action: { type: 'make_move', player: parsePlayer(match[1]), col: 0 }, suffix: '~' };
+    }
+    match = TIME_OUT_PATTERN.exec(token);
+    if (match) {
+        return { action: { type: 'time_out', player: parsePlayer(match[1]) }, suffix: null };
+    }
+    match = RESIGN_PATTERN.exec(token);
+    if (match) {
+        return { action: { type: 'resign', player: parsePlayer(match[1]) }, suffix: null };
+    }
+    match = DRAW_OFFER_PATTERN.exec(token);
+    if (match) {
+        return { action: { type: 'offer_draw', player: parsePlayer(match[1]) }, suffix: null };
+    }
+    match = DRAW_ACCEPT_PATTERN.exec(token);
+    if (match) {
+        return { action: { type: 'accept_draw', player: parsePlayer(match[1]) }, suffix: null };
+    }
+    return null;
+};
+
+export const parseGameRecord = (text: string): ParsedGameRecord | { error: string } => {
+    const headers: { [key: string]: string } = {};
+    const tokens: string[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        if (line.startsWith('[')) {
+            if (tokens.length) return { error: `Header after the move list: ${line}` };
+            const match = HEADER_PATTERN.exec(line);
+            if (!match) return { error: `Malformed header: ${line}` };
+            headers[match[1]] = match[2];
+            continue;
+        }
+        tokens.push(...line.split(/\s+/));
+    }
+
+    if (!headers.Result) return { error: 'Missing [Result] header.' };
+    if (!tokens.length) return { error: 'The record has no moves.' };
+
+    const resultToken = tokens.pop() as GameResult;
+    if (!RESULTS.includes(resultToken)) return { error: `The move list must end with a result, got "${resultToken}".` };
+    if (resultToken !== headers.Result) return { error: `Result header "${headers.Result}" doesn't match the move list (${resultToken}).` };
+
+    const config = parseBoardConfig(headers);
+    if ('error' in config) return { error: config.error };
+    const rules = parseRules(headers);
+    if ('error' in rules) return { error: rules.error };
+
+    let state = createRulesState(config, rules);
+    const history: HistoryEntry[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const parsed = parseToken(config, token);
+        if (!parsed) return { error: `Move ${i + 1}: can't read "${token}".` };
+
+        const applied = applyAction(state, parsed.action);
+        if ('error' in applied) return { error: `Move ${i + 1} (${token}) is illegal: ${applied.error}` };
+
+        const startedReselect = applied.events.some(e => e.type === 'reselect_started');
+        if (parsed.suffix === '~' && !startedReselect) return { error: `Move ${i + 1} (${token}): no reselect was pending.` };
+        if (parsed.suffix !== null && parsed.suffix !== '~') {
+            if (startedReselect) return { error: `Move ${i + 1} (${token}): a reselect was pending, expected ${token[0]}~.` };
+            const actualSuffix = dropSuffix(applied.events);
+            if (parsed.suffix !== actualSuffix) {
+                return { error: `Move ${i + 1} (${token}): annotation doesn't match the game (expected "${token.slice(0, 2)}${actualSuffix}").` };
+            }
+        }
+
+        state = applied.state;
+        history.push({ action: parsed.action, events: applied.events, at: 0 });
+    }
+
+    if (resultOf(state) !== resultToken) {
+        return { error: `The moves end in ${resultOf(state)}, but the record says ${resultToken}.` };
+    }
+
+    return { headers, history, config, rules, state, result: resultToken };
+};
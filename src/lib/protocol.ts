@@ -0,0 +1,147 @@
+import type { Socket } from 'socket.io-client';
+import { AiDifficulty, ClientToServerEvents, ServerToClientEvents, TournamentFormat } from '../types';
+
+// Runtime checks for what clients send over the socket. The types in src/types only hold
+// for well-behaved clients; the server runs every payload through `validateClientPayload`
+// first, so handlers can rely on the shapes they declare. Whether the values make sense
+// (board sizes, whose turn it is, ...) is still up to the handlers and the rules engine.
+
+// The browser's end of the connection
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export type ClientEvent = keyof ClientToServerEvents;
+export type ErrorEvent = Extract<keyof ServerToClientEvents, `${string}_error`>;
+
+export const AI_DIFFICULTIES: AiDifficulty[] = ['easy', 'medium', 'hard'];
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ['single_elimination', 'round_robin'];
+
+// Game ids, session tokens and player ids are all short strings
+const ID_MAX_LENGTH = 64;
+
+// --- Shape Checks ---
+type Fields = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is Fields =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isId = (value: unknown): value is string =>
+    typeof value === 'string' && value.length > 0 && value.length <= ID_MAX_LENGTH;
+
+const isIndex = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const checkGameId = (payload: unknown): string | null =>
+    isObject(payload) && isId(payload.gameId) ? null : "Expected { gameId } with a game id.";
+
+// Settings shared by `create_game` and `quick_match`. Only the shape is checked here; the server
+// validates the values with validateBoardConfig, validateTimeControl and validateSabotageRules.
+const checkGameSettings = (options: Fields): string | null => {
+    if (!isOptional(options.board, isObject)) return "Board settings must be an object.";
+    if (!isOptional(options.timeControl, value => value === null || isObject(value))) return "Time control must be an object or null.";
+    if (!isOptional(options.rules, isObject)) return "Rule variant must be an object.";
+    return null;
+};
+
+const checkCreateGame = (options: unknown): string | null => {
+    if (options === undefined || options === null) return null;
+    if (!isObject(options)) return "Game options must be an object.";
+    const { vsComputer } = options;
+    if (vsComputer !== undefined && (
+        !isObject(vsComputer) ||
+        !AI_DIFFICULTIES.includes(vsComputer.difficulty as AiDifficulty) ||
+        (vsComputer.humanColor !== 'red' && vsComputer.humanColor !== 'yellow')
+    )) {
+        return "Invalid computer opponent options.";
+    }
+    if (!isOptional(options.bestOf, value => typeof value === 'number')) return "Expected the number of games in the match.";
+    return checkGameSettings(options);
+};
+
+const checkQuickMatch = (options: unknown): string | null => {
+    if (options === undefined || options === null) return null;
+    if (!isObject(options)) return "Quick match options must be an object.";
+    return checkGameSettings(options);
+};
+
+// Only the shape again; the server checks the name and match length with validateTournamentOptions
+const checkCreateTournament = (options: unknown): string | null => {
+    if (!isObject(options)) return "Tournament options must be an object.";
+    if (typeof options.name !== 'string') return "Expected a tournament name.";
+    if (!TOURNAMENT_FORMATS.includes(options.format as TournamentFormat)) return "Unknown tournament format.";
+    if (typeof options.bestOf !== 'number') return "Expected the number of games per match.";
+    return checkGameSettings(options);
+};
+
+const checkTournamentId = (payload: unknown): string | null =>
+    isObject(payload) && isId(payload.tournamentId) ? null : "Expected { tournamentId } with a tournament id.";
+
+const noPayload = (): string | null => null;
+
+// --- Validation ---
+const validators: { [E in ClientEvent]: (payload: unknown) => string | null } = {
+    create_game: checkCreateGame,
+    join_game: payload => isId(payload) ? null : "Expected a game id.",
+    spectate_game: payload => isId(payload) ? null : "Expected a game id.",
+    rejoin_game: payload => isObject(payload) && isId(payload.gameId) && isId(payload.sessionToken)
+        ? null : "Expected { gameId, sessionToken }.",
+    leave_game: checkGameId,
+    select_sabotage: payload => isObject(payload) && isId(payload.gameId) && isIndex(payload.row) && isIndex(payload.col)
+        ? null : "Expected { gameId, row, col } with whole-number row and col.",
+    make_move: payload => isObject(payload) && isId(payload.gameId) && isIndex(payload.col)
+        ? null : "Expected { gameId, col } with a whole-number col.",
+    resign: checkGameId,
+    offer_draw: checkGameId,
+    accept_draw: checkGameId,
+    request_takeback: checkGameId,
+    accept_takeback: checkGameId,
+    request_rematch: checkGameId,
+    lobby_subscribe: noPayload,
+    lobby_unsubscribe: noPayload,
+    quick_match: checkQuickMatch,
+    cancel_quick_match: noPayload,
+    register_player: payload => isObject(payload) && typeof payload.nickname === 'string'
+        ? null : "Expected { nickname }.",
+    identify_player: payload => isObject(payload) && isId(payload.playerId) && isId(payload.token)
+        ? null : "Expected { playerId, token }.",
+    send_chat: payload => isObject(payload) && isId(payload.gameId) && typeof payload.text === 'string'
+        ? null : "Expected { gameId, text }.",
+    send_reaction: payload => isObject(payload) && isId(payload.gameId) && typeof payload.reaction === 'string'
+        ? null : "Expected { gameId, reaction }.",
+    create_tournament: checkCreateTournament,
+    tournament_subscribe: payload => isId(payload) ? null : "Expected a tournament id.",
+    tournament_unsubscribe: payload => isId(payload) ? null : "Expected a tournament id.",
+    register_for_tournament: checkTournamentId,
+    withdraw_from_tournament: checkTournamentId,
+    start_tournament: checkTournamentId,
+    claim_tournament_seat: payload => isObject(payload) && isId(payload.tournamentId) && isId(payload.matchId)
+        ? null : "Expected { tournamentId, matchId }.",
+};
+
+// Returns what's wrong with a payload sent for `event`, or null if it has the declared shape
+export const validateClientPayload = (event: ClientEvent, payload: unknown): string | null => {
+    return validators[event](payload);
+};
+
+// The event a refused request is answered on, so clients can show the error where they asked
+const errorEvents: { [E in ClientEvent]?: ErrorEvent } = {
+    join_game: 'join_error',
+    spectate_game: 'join_error',
+    rejoin_game: 'rejoin_error',
+    register_player: 'register_error',
+    identify_player: 'identity_error',
+    send_chat: 'chat_error',
+    send_reaction: 'chat_error',
+    create_tournament: 'tournament_error',
+    tournament_subscribe: 'tournament_error',
+    tournament_unsubscribe: 'tournament_error',
+    register_for_tournament: 'tournament_error',
+    withdraw_from_tournament: 'tournament_error',
+    start_tournament: 'tournament_error',
+    claim_tournament_seat: 'tournament_error',
+};
+
+export const errorEventFor = (event: ClientEvent): ErrorEvent => {
+    return errorEvents[event] ?? 'game_error';
+};
@@ -0,0 +1,278 @@
+import { describe, expect, it } from 'vitest';
+import { BoardConfig, GameAction, GameEvent, RulesState, SabotageRules } from '../types';
+import { applyAction, createRulesState, DEFAULT_SABOTAGE_RULES } from './rules';
+
+// --- Helpers ---
+// Applies actions in order, failing the test on the first one the engine rejects
+const play = (state: RulesState, ...actions: GameAction[]): { state: RulesState, events: GameEvent[] } => {
+    let current = state;
+    let events: GameEvent[] = [];
+    for (const action of actions) {
+        const result = applyAction(current, action);
+        if ('error' in result) throw new Error(`${action.type} by ${action.player} rejected: ${result.error}`);
+        current = result.state;
+        events = result.events;
+    }
+    return { state: current, events };
+};
+
+const errorOf = (state: RulesState, action: GameAction): string | null => {
+    const result = applyAction(state, action);
+    return 'error' in result ? result.error : null;
+};
+
+const select = (player: 'red' | 'yellow', row: number, col: number): GameAction => ({ type: 'select_sabotage', player, row, col });
+const drop = (player: 'red' | 'yellow', col: number): GameAction => ({ type: 'make_move', player, col });
+
+// A game past the opening picks, with each player's Sabotage Spaces where the test wants them
+const startGame = (red: [number, number][], yellow: [number, number][], rules: Partial<SabotageRules> = {}, config?: BoardConfig): RulesState => {
+    const state = createRulesState(config, { ...DEFAULT_SABOTAGE_RULES, spotsPerPlayer: red.length, ...rules });
+    return play(state,
+        ...red.map(([row, col]) => select('red', row, col)),
+        ...yellow.map(([row, col]) => select('yellow', row, col)),
+    ).state;
+};
+
+// The classic board's bottom row
+const BOTTOM = 5;
+
+describe('applyAction', () => {
+    describe('opening picks', () => {
+        it('lets Red pick, then Yellow, then starts play with Red', () => {
+            let state = createRulesState();
+            expect(state.gamePhase).toBe('init_select_red');
+            state = play(state, select('red', 0, 0)).state;
+            expect(state.gamePhase).toBe('init_select_yellow');
+            expect(state.currentPlayer).toBe('yellow');
+            state = play(state, select('yellow', 0, 6)).state;
+            expect(state.gamePhase).toBe('playing');
+            expect(state.currentPlayer).toBe('red');
+            expect(state.redSabotage).toEqual([{ row: 0, col: 0 }]);
+            expect(state.yellowSabotage).toEqual([{ row: 0, col: 6 }]);
+        });
+
+        it('leaves the state it was given untouched', () => {
+            const state = startGame([[0, 0]], [[0, 6]]);
+            const before = JSON.stringify(state);
+            play(state, drop('red', 3));
+            expect(JSON.stringify(state)).toBe(before);
+        });
+    });
+
+    describe('own Sabotage Space, delayed reselect', () => {
+        it('keeps the piece, passes the turn and reselects at the start of the next turn', () => {
+            let state = startGame([[BOTTOM, 0]], [[0, 6]]);
+            const landed = play(state, drop('red', 0));
+            state = landed.state;
+            expect(state.board[BOTTOM][0]).toBe('red');
+            expect(landed.events).toContainEqual({ type: 'own_sabotage_triggered', player: 'red', row: BOTTOM, col: 0 });
+            expect(state.redSabotage).toEqual([]);
+            expect(state.pendingReselect.red).toBe(true);
+            expect(state.currentPlayer).toBe('yellow');
+            expect(state.gamePhase).toBe('playing');
+
+            state = play(state, drop('yellow', 3)).state;
+            expect(state.currentPlayer).toBe('red');
+            expect(state.pendingReselect.red).toBe(true);
+
+            const reselected = play(state, select('red', 0, 0));
+            state = reselected.state;
+            expect(reselected.events).toEqual([{ type: 'sabotage_selected', player: 'red', row: 0, col: 0, delayed: true }]);
+            expect(state.pendingReselect.red).toBe(false);
+            expect(state.redSabotage).toEqual([{ row: 0, col: 0 }]);
+            // Picking the new spot doesn't use up the turn
+            expect(state.currentPlayer).toBe('red');
+            expect(state.gamePhase).toBe('playing');
+        });
+
+        it('asks for the new spot first when the player tries to drop', () => {
+            let state = startGame([[BOTTOM, 0]], [[0, 6]]);
+            state = play(state, drop('red', 0), drop('yellow', 3)).state;
+
+            const started = play(state, drop('red', 1));
+            state = started.state;
+            expect(started.events).toEqual([{ type: 'reselect_started', player: 'red' }]);
+            expect(state.gamePhase).toBe('sabotage_select_red');
+            expect(state.board[BOTTOM][1]).toBeNull();
+
+            state = play(state, select('red', 0, 0)).state;
+            expect(state.gamePhase).toBe('playing');
+            expect(state.currentPlayer).toBe('red');
+        });
+    });
+
+    describe('own Sabotage Space, immediate reselect', () => {
+        it('reselects straight away, then passes the turn', () => {
+            let state = startGame([[BOTTOM, 0]], [[0, 6]], { ownTrigger: 'immediate' });
+            state = play(state, drop('red', 0)).state;
+            expect(state.gamePhase).toBe('sabotage_select_red');
+            expect(state.currentPlayer).toBe('red');
+            expect(state.pendingReselect.red).toBe(false);
+            expect(errorOf(state, drop('red', 1))).toMatch(/'playing' phase/);
+
+            state = play(state, select('red', 0, 0)).state;
+            expect(state.gamePhase).toBe('playing');
+            expect(state.currentPlayer).toBe('yellow');
+        });
+    });
+
+    describe("opponent's Sabotage Space", () => {
+        it('turns the piece over and the opponent reselects before taking their turn', () => {
+            let state = startGame([[0, 0]], [[BOTTOM, 3]]);
+            const landed = play(state, drop('red', 3));
+            state = landed.state;
+            expect(state.board[BOTTOM][3]).toBe('yellow');
+            expect(landed.events).toContainEqual({ type: 'piece_placed', player: 'red', piece: 'yellow', row: BOTTOM, col: 3 });
+            expect(landed.events).toContainEqual({ type: 'opponent_sabotage_triggered', player: 'red', spotOwner: 'yellow', row: BOTTOM, col: 3 });
+            expect(state.gamePhase).toBe('sabotage_select_yellow');
+            expect(state.currentPlayer).toBe('yellow');
+            expect(errorOf(state, select('red', 0, 1))).toBe("Cannot select sabotage at this time.");
+
+            state = play(state, select('yellow', 0, 6)).state;
+            // Yellow keeps the turn that was theirs anyway
+            expect(state.gamePhase).toBe('playing');
+            expect(state.currentPlayer).toBe('yellow');
+            expect(state.yellowSabotage).toEqual([{ row: 0, col: 6 }]);
+        });
+    });
+
+    describe('shared Sabotage Space', () => {
+        it('cancels out, then the mover picks, then the opponent, and the turn passes on', () => {
+            let state = startGame([[BOTTOM, 3]], [[BOTTOM, 3]]);
+            const landed = play(state, drop('red', 3));
+            state = landed.state;
+            expect(state.board[BOTTOM][3]).toBe('red');
+            expect(landed.events).toContainEqual({ type: 'overlap_triggered', player: 'red', row: BOTTOM, col: 3 });
+            expect(state.redSabotage).toEqual([]);
+            expect(state.yellowSabotage).toEqual([]);
+            expect(state.gamePhase).toBe('sabotage_select_red');
+            expect(state.currentPlayer).toBe('red');
+
+            state = play(state, select('red', 0, 0)).state;
+            expect(state.gamePhase).toBe('sabotage_select_yellow');
+            expect(state.currentPlayer).toBe('yellow');
+
+            state = play(state, select('yellow', 0, 6)).state;
+            expect(state.gamePhase).toBe('playing');
+            expect(state.currentPlayer).toBe('yellow');
+            expect(state.overlapJustTriggered).toBeNull();
+        });
+
+        it("gives the piece to the opponent with the 'flip' variant", () => {
+            const state = play(startGame([[BOTTOM, 3]], [[BOTTOM, 3]], { overlap: 'flip' }), drop('red', 3)).state;
+            expect(state.board[BOTTOM][3]).toBe('yellow');
+            expect(state.gamePhase).toBe('sabotage_select_red');
+        });
+    });
+
+    describe('several Sabotage Spaces per player', () => {
+        it('keeps each player picking until their set is complete', () => {
+            let state = createRulesState(undefined, { ...DEFAULT_SABOTAGE_RULES, spotsPerPlayer: 2 });
+            state = play(state, select('red', 0, 0)).state;
+            expect(state.gamePhase).toBe('init_select_red');
+            expect(errorOf(state, select('red', 0, 0))).toBe("You already have a Sabotage Space there.");
+            state = play(state, select('red', 0, 1)).state;
+            expect(state.gamePhase).toBe('init_select_yellow');
+            state = play(state, select('yellow', 0, 5), select('yellow', 0, 6)).state;
+            expect(state.gamePhase).toBe('playing');
+        });
+
+        it('only replaces the spot that was triggered', () => {
+            let state = startGame([[BOTTOM, 0], [0, 1]], [[0, 5], [0, 6]]);
+            state = play(state, drop('red', 0), drop('yellow', 3)).state;
+            expect(state.redSabotage).toEqual([{ row: 0, col: 1 }]);
+
+            state = play(state, select('red', 0, 2)).state;
+            expect(state.redSabotage).toEqual([{ row: 0, col: 1 }, { row: 0, col: 2 }]);
+            expect(state.pendingReselect.red).toBe(false);
+            expect(state.gamePhase).toBe('playing');
+            expect(state.currentPlayer).toBe('red');
+        });
+
+        it('forbids occupied cells with the empty-cells variant', () => {
+            let state = startGame([[BOTTOM, 0]], [[0, 6]], { emptyCellsOnly: true });
+            state = play(state, drop('red', 0), drop('yellow', 3)).state;
+            expect(errorOf(state, select('red', BOTTOM, 3))).toBe("Sabotage Spaces must go on empty cells in this game.");
+            expect(errorOf(state, select('red', BOTTOM - 1, 3))).toBeNull();
+        });
+    });
+
+    describe('wins and draws', () => {
+        it('needs `connect` in a row on a wide board', () => {
+            const config = { rows: 5, cols: 8, connect: 5 };
+            let state = startGame([[0, 0]], [[0, 7]], {}, config);
+            for (let col = 0; col < 4; col++) state = play(state, drop('red', col), drop('yellow', col)).state;
+            expect(state.gamePhase).toBe('playing'); // Four in a row isn't enough here
+
+            const won = play(state, drop('red', 4));
+            expect(won.state.gamePhase).toBe('game_over');
+            expect(won.state.winner).toBe('red');
+            expect(won.events).toContainEqual({ type: 'game_won', winner: 'red' });
+            expect(errorOf(won.state, drop('yellow', 5))).toMatch(/'playing' phase/);
+        });
+
+        it('wins with three in a column on a small board', () => {
+            const config = { rows: 4, cols: 5, connect: 3 };
+            let state = startGame([[0, 4]], [[0, 3]], {}, config);
+            state = play(state, drop('red', 0), drop('yellow', 1), drop('red', 0), drop('yellow', 1)).state;
+            const won = play(state, drop('red', 0)).state;
+            expect(won.winner).toBe('red');
+            expect(won.board.map(row => row[0])).toEqual([null, 'red', 'red', 'red']);
+        });
+
+        it('is a draw when the last cell fills without a line', () => {
+            const config = { rows: 4, cols: 5, connect: 4 };
+            const state: RulesState = {
+                ...createRulesState(config),
+                gamePhase: 'playing',
+                board: [
+                    ['red', 'red', 'yellow', 'yellow', null],
+                    ['yellow', 'yellow', 'red', 'red', 'yellow'],
+                    ['red', 'red', 'yellow', 'yellow', 'red'],
+                    ['yellow', 'yellow', 'red', 'red', 'yellow'],
+                ],
+            };
+            const drawn = play(state, drop('red', 4));
+            expect(drawn.state.gamePhase).toBe('game_over');
+            expect(drawn.state.isDraw).toBe(true);
+            expect(drawn.state.winner).toBeNull();
+            expect(drawn.events).toContainEqual({ type: 'game_drawn' });
+        });
+    });
+
+    describe('rejected actions', () => {
+        it('rejects drops and spots out of phase or out of turn', () => {
+            const opening = createRulesState();
+            expect(errorOf(opening, drop('red', 0))).toBe("You can only make moves during the 'playing' phase.");
+            expect(errorOf(opening, select('yellow', 0, 0))).toBe("Cannot select sabotage at this time.");
+
+            const state = startGame([[0, 0]], [[0, 6]]);
+            expect(errorOf(state, drop('yellow', 0))).toBe("It's not your turn.");
+            expect(errorOf(state, select('red', 0, 1))).toBe("Cannot select sabotage at this time.");
+            expect(errorOf(state, drop('red', 7))).toBe("Invalid column selected.");
+        });
+
+        it('rejects a drop into a full column', () => {
+            let state = startGame([[0, 6]], [[1, 6]]);
+            for (let i = 0; i < 3; i++) state = play(state, drop('red', 0), drop('yellow', 0)).state;
+            expect(errorOf(state, drop('red', 0))).toBe("This column is full.");
+        });
+
+        it('rejects everything once the game is over', () => {
+            const state = play(startGame([[0, 0]], [[0, 6]]), { type: 'resign', player: 'red' }).state;
+            expect(state.winner).toBe('yellow');
+            expect(errorOf(state, drop('yellow', 0))).toMatch(/'playing' phase/);
+            expect(errorOf(state, { type: 'resign', player: 'yellow' })).toBe("There is no game in progress to resign.");
+            expect(errorOf(state, { type: 'offer_draw', player: 'yellow' })).toBe("There is no game in progress to offer a draw in.");
+            expect(errorOf(state, { type: 'time_out', player: 'yellow' })).toBe("Only the player on the move can run out of time.");
+        });
+
+        it('only accepts a draw the opponent offered', () => {
+            let state = startGame([[0, 0]], [[0, 6]]);
+            expect(errorOf(state, { type: 'accept_draw', player: 'yellow' })).toBe("There is no draw offer to accept.");
+            state = play(state, { type: 'offer_draw', player: 'red' }).state;
+            expect(errorOf(state, { type: 'accept_draw', player: 'red' })).toBe("There is no draw offer to accept.");
+            expect(play(state, { type: 'accept_draw', player: 'yellow' }).state.isDraw).toBe(true);
+        });
+    });
+});
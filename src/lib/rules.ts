@@ -0,0 +1,458 @@
+import { Board, BoardConfig, Cell, GameAction, GameEvent, GamePhase, Player, PlayerColor, RulesState, SabotageRules, SabotageSpot } from '../types';
+
+// Pure rules engine for Sabotage Connect 4. Shared by the server and the client, so it must
+// not touch sockets, timers or the DOM. Imports stay relative so the server build can compile it.
+
+// --- Board Configuration ---
+export const DEFAULT_BOARD_CONFIG: BoardConfig = { rows: 6, cols: 7, connect: 4 };
+
+// Allowed ranges for a configurable board (inclusive)
+export const BOARD_LIMITS = {
+    rows: { min: 4, max: 9 },
+    cols: { min: 5, max: 10 },
+    connect: { min: 3, max: 6 },
+};
+
+export const isClassicBoard = (config: BoardConfig): boolean => {
+    return config.rows === DEFAULT_BOARD_CONFIG.rows && config.cols === DEFAULT_BOARD_CONFIG.cols && config.connect === DEFAULT_BOARD_CONFIG.connect;
+};
+
+// Checks a client-supplied board config. Returns an error message, or null if it's playable.
+export const validateBoardConfig = (config: BoardConfig): string | null => {
+    if (!config || typeof config !== 'object') return "Invalid board settings.";
+    for (const key of ['rows', 'cols', 'connect'] as const) {
+        const value = config[key];
+        const { min, max } = BOARD_LIMITS[key];
+        if (!Number.isInteger(value) || value < min || value > max) {
+            return `Board ${key} must be a whole number from ${min} to ${max}.`;
+        }
+    }
+    if (config.connect > Math.max(config.rows, config.cols)) {
+        return `Connect ${config.connect} doesn't fit on a ${config.cols}x${config.rows} board.`;
+    }
+    return null;
+};
+
+// --- Rule Variants ---
+export const DEFAULT_SABOTAGE_RULES: SabotageRules = {
+    spotsPerPlayer: 1,
+    emptyCellsOnly: false,
+    ownTrigger: 'delayed',
+    overlap: 'cancel',
+    revealTriggered: false,
+};
+
+export const SPOTS_PER_PLAYER_LIMITS = { min: 1, max: 3 };
+
+export const isDefaultRules = (rules: SabotageRules): boolean => {
+    return (Object.keys(DEFAULT_SABOTAGE_RULES) as (keyof SabotageRules)[]).every(key => rules[key] === DEFAULT_SABOTAGE_RULES[key]);
+};
+
+// Checks client-supplied sabotage rules. Returns an error message, or null if they're playable.
+export const validateSabotageRules = (rules: SabotageRules): string | null => {
+    if (!rules || typeof rules !== 'object') return "Invalid rule variant.";
+    const { min, max } = SPOTS_PER_PLAYER_LIMITS;
+    if (!Number.isInteger(rules.spotsPerPlayer) || rules.spotsPerPlayer < min || rules.spotsPerPlayer > max) {
+        return `Sabotage Spaces per player must be a whole number from ${min} to ${max}.`;
+    }
+    if (typeof rules.emptyCellsOnly !== 'boolean' || typeof rules.revealTriggered !== 'boolean') {
+        return "Invalid rule variant.";
+    }
+    if (rules.ownTrigger !== 'delayed' && rules.ownTrigger !== 'immediate') {
+        return "Own-sabotage reselect must be 'delayed' or 'immediate'.";
+    }
+    if (rules.overlap !== 'cancel' && rules.overlap !== 'flip') {
+        return "Overlap must be 'cancel' or 'flip'.";
+    }
+    return null;
+};
+
+// Only the known fields, so nothing else a client sent along ends up in game state or the store
+export const copySabotageRules = (rules: SabotageRules): SabotageRules => ({
+    spotsPerPlayer: rules.spotsPerPlayer,
+    emptyCellsOnly: rules.emptyCellsOnly,
+    ownTrigger: rules.ownTrigger,
+    overlap: rules.overlap,
+    revealTriggered: rules.revealTriggered,
+});
+
+// One short line per way `rules` differs from the original rules (empty for the original)
+export const describeSabotageRules = (rules: SabotageRules): string[] => {
+    const lines: string[] = [];
+    if (rules.spotsPerPlayer !== DEFAULT_SABOTAGE_RULES.spotsPerPlayer) lines.push(`Each player holds ${rules.spotsPerPlayer} Sabotage Spaces.`);
+    if (rules.emptyCellsOnly) lines.push("Sabotage Spaces must go on empty cells.");
+    if (rules.ownTrigger === 'immediate') lines.push("Landing on your own Sabotage Space: pick a new one straight away, then your turn ends.");
+    if (rules.overlap === 'flip') lines.push("Landing on a shared Sabotage Space flips the piece to the other player.");
+    if (rules.revealTriggered) lines.push("Triggered Sabotage Spaces are shown to both players.");
+    return lines;
+};
+
+// --- Results ---
+export type ActionResult<S extends RulesState> =
+    | { state: S, events: GameEvent[] }
+    | { error: string };
+
+// --- Helpers ---
+export const createEmptyBoard = (config: BoardConfig = DEFAULT_BOARD_CONFIG): Board => {
+    return Array(config.rows).fill(null).map(() => Array(config.cols).fill(null));
+};
+
+// A fresh game, ready for Red to pick the first Sabotage Space
+export const createRulesState = (config: BoardConfig = DEFAULT_BOARD_CONFIG, rules: SabotageRules = DEFAULT_SABOTAGE_RULES): RulesState => ({
+    config: { rows: config.rows, cols: config.cols, connect: config.connect },
+    rules: copySabotageRules(rules),
+    board: createEmptyBoard(config),
+    currentPlayer: 'red',
+    winner: null,
+    isDraw: false,
+    gamePhase: 'init_select_red',
+    redSabotage: [],
+    yellowSabotage: [],
+    triggeredSpots: [],
+    overlapJustTriggered: null,
+    sabotageTriggeredBy: null,
+    pendingReselect: { red: false, yellow: false },
+    drawOfferedBy: null,
+});
+
+export const getOpponent = (player: PlayerColor): PlayerColor => {
+    return player === 'red' ? 'yellow' : 'red';
+};
+
+export const getSabotage = (state: RulesState, player: PlayerColor): SabotageSpot[] => {
+    return player === 'red' ? state.redSabotage : state.yellowSabotage;
+};
+
+export const hasSpotAt = (spots: SabotageSpot[], row: number, col: number): boolean => {
+    return spots.some(spot => spot.row === row && spot.col === col);
+};
+
+const withoutSpotAt = (spots: SabotageSpot[], row: number, col: number): SabotageSpot[] => {
+    return spots.filter(spot => spot.row !== row || spot.col !== col);
+};
+
+const setSabotage = (state: RulesState, player: PlayerColor, spots: SabotageSpot[]): void => {
+    if (player === 'red') state.redSabotage = spots;
+    else state.yellowSabotage = spots;
+};
+
+// Whether `player` still has Sabotage Spaces to pick before play can go on
+const needsMoreSpots = (state: RulesState, player: PlayerColor): boolean => {
+    return getSabotage(state, player).length < state.rules.spotsPerPlayer;
+};
+
+const selectPhaseFor = (player: PlayerColor): GamePhase => {
+    return player === 'red' ? 'sabotage_select_red' : 'sabotage_select_yellow';
+};
+
+// The cells of the line of at least `connect` that the piece at (r, c) completes for `player`,
+// or null if it doesn't complete one. Board size comes from the board itself.
+export const findWinningLine = (board: Board, player: Player, r: number, c: number, connect: number = DEFAULT_BOARD_CONFIG.connect): Cell[] | null => {
+    if (!player) return null;
+    const rows = board.length;
+    const cols = board[0].length;
+
+    // Horizontal, vertical, diagonal (top-left to bottom-right), diagonal (bottom-left to top-right)
+    const directions = [[0, 1], [1, 0], [1, 1], [-1, 1]];
+    for (const [dr, dc] of directions) {
+        const line: Cell[] = [{ row: r, col: c }];
+        for (const sign of [1, -1]) {
+            let i = r + dr * sign;
+            let j = c + dc * sign;
+            while (i >= 0 && i < rows && j >= 0 && j < cols && board[i][j] === player) {
+                line.push({ row: i, col: j });
+                i += dr * sign;
+                j += dc * sign;
+            }
+        }
+        if (line.length >= connect) return line;
+    }
+
+    return null;
+};
+
+export const checkWin = (board: Board, player: Player, r: number, c: number, connect: number = DEFAULT_BOARD_CONFIG.connect): boolean => {
+    return findWinningLine(board, player, r, c, connect) !== null;
+};
+
+export const checkDraw = (board: Board): boolean => {
+    // Check if the top row is full
+    return board[0].every(cell => cell !== null);
+};
+
+// Row a piece dropped into `col` would land on, or -1 if the column is full
+export const findLandingRow = (board: Board, col: number): number => {
+    for (let i = board.length - 1; i >= 0; i--) {
+        if (board[i][col] === null) return i;
+    }
+    return -1;
+};
+
+// Phases in which `currentPlayer` is on the move (picking a Sabotage Space or dropping a piece)
+export const isActivePhase = (gamePhase: GamePhase): boolean => {
+    return gamePhase === 'playing' || gamePhase.startsWith('init_select') || gamePhase.startsWith('sabotage_select');
+};
+
+// Whether `player` may pick a Sabotage Space right now: either an explicit selection phase
+// for them, or a delayed reselect (own spot triggered last turn) at the start of their turn.
+export const canSelectSabotage = (gamePhase: GamePhase, currentPlayer: Player, player: PlayerColor, hasPendingReselect: boolean): boolean => {
+    if (currentPlayer !== player) return false;
+    if (player === 'red' && (gamePhase === 'init_select_red' || gamePhase === 'sabotage_select_red')) return true;
+    if (player === 'yellow' && (gamePhase === 'init_select_yellow' || gamePhase === 'sabotage_select_yellow')) return true;
+    return gamePhase === 'playing' && hasPendingReselect;
+};
+
+const cloneState = <S extends RulesState>(state: S): S => ({
+    ...state,
+    board: state.board.map(row => [...row]),
+    redSabotage: [...state.redSabotage],
+    yellowSabotage: [...state.yellowSabotage],
+    triggeredSpots: [...state.triggeredSpots],
+    pendingReselect: { ...state.pendingReselect },
+});
+
+// --- Reducers ---
+const selectSabotage = <S extends RulesState>(state: S, player: PlayerColor, row: number, col: number): ActionResult<S> => {
+    if (!canSelectSabotage(state.gamePhase, state.currentPlayer, player, state.pendingReselect[player])) {
+        return { error: "Cannot select sabotage at this time." };
+    }
+    if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || row >= state.config.rows || col < 0 || col >= state.config.cols) {
+        return { error: "Invalid coordinates selected." };
+    }
+    const spots = getSabotage(state, player);
+    if (hasSpotAt(spots, row, col)) {
+        return { error: "You already have a Sabotage Space there." };
+    }
+    // Selecting an occupied cell is normally allowed on purpose: it is a legal (if useless) bluff.
+    // The empty-cells variant forbids it, unless no empty cell is left to pick.
+    if (state.rules.emptyCellsOnly && state.board[row][col] !== null &&
+        state.board.some((cells, r) => cells.some((cell, c) => cell === null && !hasSpotAt(spots, r, c)))) {
+        return { error: "Sabotage Spaces must go on empty cells in this game." };
+    }
+
+    const game = cloneState(state);
+    const currentPhase = state.gamePhase;
+    const isDelayedReselect = currentPhase === 'playing'; // Validation guarantees a pending flag here
+    const cause = state.sabotageTriggeredBy; // Read before it gets reset below
+    const opponent = getOpponent(player);
+    const events: GameEvent[] = [{ type: 'sabotage_selected', player, row, col, delayed: isDelayedReselect }];
+
+    setSabotage(game, player, [...spots, { row, col }]);
+
+    // With several spots per player, keep picking until the set is complete
+    if (needsMoreSpots(game, player)) {
+        if (isDelayedReselect) {
+            game.gamePhase = selectPhaseFor(player);
+            game.sabotageTriggeredBy = null;
+        }
+        return { state: game, events };
+    }
+
+    // Clear the pending flag now that the player's spots are complete
+    game.pendingReselect[player] = false;
+
+    // Phase transition logic
+    if (currentPhase === 'init_select_red') {
+        game.gamePhase = 'init_select_yellow';
+        game.currentPlayer = 'yellow';
+        game.sabotageTriggeredBy = null;
+    } else if (currentPhase === 'init_select_yellow') {
+        game.gamePhase = 'playing';
+        game.currentPlayer = 'red'; // Red starts the playing phase
+        game.sabotageTriggeredBy = null;
+    } else if (state.overlapJustTriggered === player) {
+        // First half of an overlap: the opponent picks next, the turn comes back afterwards
+        game.gamePhase = selectPhaseFor(opponent);
+        game.currentPlayer = opponent;
+    } else {
+        // Self-trigger passes the turn on; an opponent trigger (or the end of an overlap) keeps it
+        game.currentPlayer = cause === player ? opponent : player;
+        game.gamePhase = 'playing';
+        game.overlapJustTriggered = null;
+        game.sabotageTriggeredBy = null;
+    }
+
+    return { state: game, events };
+};
+
+const makeMove = <S extends RulesState>(state: S, player: PlayerColor, col: number): ActionResult<S> => {
+    if (state.gamePhase !== 'playing') {
+        return { error: "You can only make moves during the 'playing' phase." };
+    }
+    if (state.currentPlayer !== player) {
+        return { error: "It's not your turn." };
+    }
+
+    const game = cloneState(state);
+
+    // A pending own-sabotage reselect must be resolved before the player can drop a piece
+    if (state.pendingReselect[player]) {
+        game.gamePhase = selectPhaseFor(player);
+        game.sabotageTriggeredBy = null;
+        game.overlapJustTriggered = null;
+        return { state: game, events: [{ type: 'reselect_started', player }] };
+    }
+
+    if (!Number.isInteger(col) || col < 0 || col >= state.config.cols) {
+        return { error: "Invalid column selected." };
+    }
+
+    const row = findLandingRow(state.board, col);
+    if (row < 0) {
+        return { error: "This column is full." };
+    }
+
+    // --- Sabotage Logic ---
+    const opponent = getOpponent(player);
+    const onOwn = hasSpotAt(getSabotage(state, player), row, col);
+    const onOpponent = hasSpotAt(getSabotage(state, opponent), row, col);
+    const isOverlap = onOwn && onOpponent;
+    const isOpponentSabotage = onOpponent && !isOverlap;
+    const isOwnSabotage = onOwn && !isOverlap;
+
+    // An overlap cancels out by default; the 'flip' variant lets the opponent's spot win
+    const isFlipped = isOpponentSabotage || (isOverlap && state.rules.overlap === 'flip');
+    const piece = isFlipped ? opponent : player;
+    game.board[row][col] = piece;
+
+    // Dropping a piece declines the opponent's draw offer
+    if (state.drawOfferedBy === opponent) game.drawOfferedBy = null;
+
+    // A triggered spot is used up either way
+    if (onOwn) {
+        setSabotage(game, player, withoutSpotAt(getSabotage(state, player), row, col));
+        game.triggeredSpots.push({ row, col, owner: player });
+    }
+    if (onOpponent) {
+        setSabotage(game, opponent, withoutSpotAt(getSabotage(state, opponent), row, col));
+        game.triggeredSpots.push({ row, col, owner: opponent });
+    }
+
+    const events: GameEvent[] = [{ type: 'piece_placed', player, piece, row, col }];
+    if (isOverlap) events.push({ type: 'overlap_triggered', player, row, col });
+    else if (isOpponentSabotage) events.push({ type: 'opponent_sabotage_triggered', player, spotOwner: opponent, row, col });
+    else if (isOwnSabotage) events.push({ type: 'own_sabotage_triggered', player, row, col });
+
+    // --- Win/Draw ---
+    if (checkWin(game.board, piece, row, col, state.config.connect)) {
+        game.winner = piece;
+        game.gamePhase = 'game_over';
+        events.push({ type: 'game_won', winner: piece });
+        return { state: game, events };
+    }
+
+    if (checkDraw(game.board)) {
+        game.isDraw = true;
+        game.gamePhase = 'game_over';
+        events.push({ type: 'game_drawn' });
+        return { state: game, events };
+    }
+
+    // --- Sabotage Outcomes & Next Turn/Phase ---
+    if (isOverlap) {
+        // Both spots are gone; the mover picks first, then the opponent
+        game.overlapJustTriggered = player;
+        game.sabotageTriggeredBy = null;
+        game.gamePhase = selectPhaseFor(player);
+        game.currentPlayer = player;
+    } else if (isOpponentSabotage) {
+        // The opponent reselects immediately, then the turn returns to them as usual
+        game.overlapJustTriggered = null;
+        game.sabotageTriggeredBy = player;
+        game.gamePhase = selectPhaseFor(opponent);
+        game.currentPlayer = opponent;
+    } else if (isOwnSabotage && state.rules.ownTrigger === 'immediate') {
+        // The player reselects right away, then the turn passes on
+        game.overlapJustTriggered = null;
+        game.sabotageTriggeredBy = player;
+        game.gamePhase = selectPhaseFor(player);
+        game.currentPlayer = player;
+    } else if (isOwnSabotage) {
+        // Reselect is delayed until the start of the player's next turn
+        game.overlapJustTriggered = null;
+        game.pendingReselect[player] = true;
+        game.sabotageTriggeredBy = player;
+        game.currentPlayer = opponent;
+    } else {
+        // Normal move; keep existing pendingReselect flags
+        game.overlapJustTriggered = null;
+        game.sabotageTriggeredBy = null;
+        game.currentPlayer = opponent;
+    }
+
+    return { state: game, events };
+};
+
+// A player whose clock ran out loses. Only the player on the move can run out of time.
+const timeOut = <S extends RulesState>(state: S, player: PlayerColor): ActionResult<S> => {
+    if (!isActivePhase(state.gamePhase) || state.currentPlayer !== player) {
+        return { error: "Only the player on the move can run out of time." };
+    }
+
+    const game = cloneState(state);
+    const winner = getOpponent(player);
+    game.winner = winner;
+    game.gamePhase = 'game_over';
+    game.drawOfferedBy = null;
+    return { state: game, events: [{ type: 'time_forfeit', player }, { type: 'game_won', winner }] };
+};
+
+const resign = <S extends RulesState>(state: S, player: PlayerColor): ActionResult<S> => {
+    if (!isActivePhase(state.gamePhase)) {
+        return { error: "There is no game in progress to resign." };
+    }
+
+    const game = cloneState(state);
+    const winner = getOpponent(player);
+    game.winner = winner;
+    game.gamePhase = 'game_over';
+    game.drawOfferedBy = null;
+    return { state: game, events: [{ type: 'resigned', player }, { type: 'game_won', winner }] };
+};
+
+const offerDraw = <S extends RulesState>(state: S, player: PlayerColor): ActionResult<S> => {
+    if (!isActivePhase(state.gamePhase)) {
+        return { error: "There is no game in progress to offer a draw in." };
+    }
+    if (state.drawOfferedBy === player) {
+        return { error: "You have already offered a draw." };
+    }
+    if (state.drawOfferedBy) {
+        return { error: "Your opponent has already offered a draw: accept it instead." };
+    }
+
+    const game = cloneState(state);
+    game.drawOfferedBy = player;
+    return { state: game, events: [{ type: 'draw_offered', player }] };
+};
+
+const acceptDraw = <S extends RulesState>(state: S, player: PlayerColor): ActionResult<S> => {
+    if (!isActivePhase(state.gamePhase) || state.drawOfferedBy !== getOpponent(player)) {
+        return { error: "There is no draw offer to accept." };
+    }
+
+    const game = cloneState(state);
+    game.isDraw = true;
+    game.gamePhase = 'game_over';
+    game.drawOfferedBy = null;
+    return { state: game, events: [{ type: 'draw_agreed' }, { type: 'game_drawn' }] };
+};
+
+// Applies one action to a game without mutating it. Any extra fields on the state (sockets,
+// rematch flags, ...) are carried over untouched.
+export const applyAction = <S extends RulesState>(state: S, action: GameAction): ActionResult<S> => {
+    switch (action.type) {
+        case 'select_sabotage':
+            return selectSabotage(state, action.player, action.row, action.col);
+        case 'make_move':
+            return makeMove(state, action.player, action.col);
+        case 'time_out':
+            return timeOut(state, action.player);
+        case 'resign':
+            return resign(state, action.player);
+        case 'offer_draw':
+            return offerDraw(state, action.player);
+        case 'accept_draw':
+            return acceptDraw(state, action.player);
+    }
+};
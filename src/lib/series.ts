@@ -0,0 +1,51 @@
+import { MatchSeries, Player } from '../types';
+
+// Best-of-N matches. Pure helpers like the clock: the server records each finished game and
+// carries the series into the rematch, clients only display what they were sent.
+
+export const SERIES_LENGTHS = [3, 5, 7];
+
+// Checks a client-supplied match length. Returns an error message, or null if it's usable.
+export const validateSeriesLength = (bestOf: number): string | null => {
+    return SERIES_LENGTHS.includes(bestOf) ? null : `Matches are best of ${SERIES_LENGTHS.join(', ')} games.`;
+};
+
+export const createSeries = (bestOf: number): MatchSeries => ({
+    bestOf,
+    wins: { red: 0, yellow: 0 },
+    draws: 0,
+    winner: null,
+});
+
+export const gamesPlayed = (series: MatchSeries): number => {
+    return series.wins.red + series.wins.yellow + series.draws;
+};
+
+// Counts a finished game (null winner for a draw). A seat wins the match with a majority of
+// `bestOf`; if draws leave it level after that many games, the next decisive game wins it.
+export const recordSeriesGame = (series: MatchSeries, winner: Player): MatchSeries => {
+    if (series.winner) return series;
+    const wins = { ...series.wins };
+    if (winner) wins[winner]++;
+    const draws = series.draws + (winner ? 0 : 1);
+    const needed = Math.floor(series.bestOf / 2) + 1;
+    const allPlayed = wins.red + wins.yellow + draws >= series.bestOf;
+
+    let seriesWinner: Player = null;
+    if (wins.red >= needed || (allPlayed && wins.red > wins.yellow)) seriesWinner = 'red';
+    else if (wins.yellow >= needed || (allPlayed && wins.yellow > wins.red)) seriesWinner = 'yellow';
+    return { ...series, wins, draws, winner: seriesWinner };
+};
+
+// The series for the rematch: the players swap colors, so their scores swap seats with them.
+// Once the match has a winner, the rematch starts a new match of the same length.
+export const seriesForRematch = (series: MatchSeries): MatchSeries => {
+    if (series.winner) return createSeries(series.bestOf);
+    return { ...series, wins: { red: series.wins.yellow, yellow: series.wins.red } };
+};
+
+// "Game 2 of 5", counting the game in progress
+export const describeSeriesGame = (series: MatchSeries, gameOver: boolean): string => {
+    const gameNumber = gamesPlayed(series) + (gameOver ? 0 : 1);
+    return gameNumber > series.bestOf ? `Game ${gameNumber} (tiebreak)` : `Game ${gameNumber} of ${series.bestOf}`;
+};
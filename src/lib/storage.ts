@@ -0,0 +1,52 @@
+// What the browser remembers between visits, in localStorage. Shared by the game screen and
+// the tournament pages, which hand a seat over to the game screen through the stored session.
+
+// --- Session Persistence (lets us rejoin after a reload or a dropped connection) ---
+const SESSION_STORAGE_KEY = 'connect4_session';
+
+export interface StoredSession {
+    gameId: string;
+    sessionToken: string;
+}
+
+export const loadSession = (): StoredSession | null => {
+    try {
+        const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+        return raw ? JSON.parse(raw) as StoredSession : null;
+    } catch {
+        return null;
+    }
+};
+
+export const saveSession = (session: StoredSession) => {
+    window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearSession = () => {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+// --- Player Identity (registered nickname for rated games) ---
+const PLAYER_STORAGE_KEY = 'connect4_player';
+
+export interface StoredPlayer {
+    playerId: string;
+    token: string;
+}
+
+export const loadPlayer = (): StoredPlayer | null => {
+    try {
+        const raw = window.localStorage.getItem(PLAYER_STORAGE_KEY);
+        return raw ? JSON.parse(raw) as StoredPlayer : null;
+    } catch {
+        return null;
+    }
+};
+
+export const savePlayer = (player: StoredPlayer) => {
+    window.localStorage.setItem(PLAYER_STORAGE_KEY, JSON.stringify(player));
+};
+
+export const clearPlayer = () => {
+    window.localStorage.removeItem(PLAYER_STORAGE_KEY);
+};
@@ -1,21 +1,427 @@
 export type Player = 'red' | 'yellow' | null;
+export type PlayerColor = Exclude<Player, null>;
 
 export type Board = (Player | null)[][];
-export type SabotageSpot = { row: number, col: number } | null;
+export type Cell = { row: number, col: number };
+export type SabotageSpot = Cell;
+export type AiDifficulty = 'easy' | 'medium' | 'hard';
+
+// Board dimensions and how many in a row wins. Classic Connect 4 is 7 columns x 6 rows, connect 4.
+export interface BoardConfig {
+    rows: number;
+    cols: number;
+    connect: number;
+}
+
+// Variations on the sabotage mechanic, chosen when a game is created. The defaults are the
+// original rules: one spot each, any cell, delayed own reselect, overlaps cancel, spots stay secret.
+export interface SabotageRules {
+    spotsPerPlayer: number; // Sabotage Spaces each player holds at once
+    emptyCellsOnly: boolean; // Spots must be picked on empty cells (while there are any)
+    ownTrigger: 'delayed' | 'immediate'; // Reselect at the start of your next turn, or straight away
+    overlap: 'cancel' | 'flip'; // Both spots on one cell: the piece stays the mover's, or flips to the opponent
+    revealTriggered: boolean; // Show a spot to both players once it has been triggered
+}
+
+// A Sabotage Space that has been landed on, and whose it was
+export interface TriggeredSpot {
+    row: number;
+    col: number;
+    owner: PlayerColor;
+}
+
 export type GamePhase = 'init_select_red' | 'init_select_yellow' | 'playing' | 'sabotage_select_red' | 'sabotage_select_yellow' | 'game_over' | 'waiting_for_opponent' | 'initial';
 
-export interface GameState {
+// Time limits chosen when a game is created: a fixed limit per turn, or a chess-style
+// clock for the whole game with a bonus added after every completed turn
+export type TimeControl =
+    | { kind: 'per_move', seconds: number }
+    | { kind: 'total', seconds: number, incrementSeconds: number };
+
+// Server-side clock state. Only the player in `runningFor` is losing time, counted from `turnStartedAt`.
+export interface GameClock {
+    control: TimeControl;
+    remainingMs: { red: number, yellow: number };
+    runningFor: Player;
+    turnStartedAt: number | null; // Server timestamp (ms)
+}
+
+// The clock as sent to clients: time left at the moment the update was sent
+export interface ClockView {
+    control: TimeControl;
+    remainingMs: { red: number, yellow: number };
+    runningFor: Player;
+}
+
+// A best-of-N match played as rematches in one room. Scores are kept per seat, so they swap
+// along with the colors at every rematch; `winner` is set once a seat has won the match.
+export interface MatchSeries {
+    bestOf: number;
+    wins: { red: number, yellow: number };
+    draws: number;
+    winner: Player;
+}
+
+// Things a player can do, and what the rules engine reports back when they do them.
+// `time_out` is never sent by a client: the server applies it when a player's clock runs out.
+// Resigning and draw offers work whoever's turn it is.
+export type GameAction =
+    | { type: 'select_sabotage', player: PlayerColor, row: number, col: number }
+    | { type: 'make_move', player: PlayerColor, col: number }
+    | { type: 'time_out', player: PlayerColor }
+    | { type: 'resign', player: PlayerColor }
+    | { type: 'offer_draw', player: PlayerColor }
+    | { type: 'accept_draw', player: PlayerColor };
+
+export type GameEvent =
+    | { type: 'sabotage_selected', player: PlayerColor, row: number, col: number, delayed: boolean }
+    | { type: 'reselect_started', player: PlayerColor } // Delayed own-sabotage reselect begins
+    | { type: 'piece_placed', player: PlayerColor, piece: PlayerColor, row: number, col: number }
+    | { type: 'overlap_triggered', player: PlayerColor, row: number, col: number }
+    | { type: 'opponent_sabotage_triggered', player: PlayerColor, spotOwner: PlayerColor, row: number, col: number }
+    | { type: 'own_sabotage_triggered', player: PlayerColor, row: number, col: number }
+    | { type: 'time_forfeit', player: PlayerColor } // Ran out of time and loses
+    | { type: 'resigned', player: PlayerColor }
+    | { type: 'draw_offered', player: PlayerColor }
+    | { type: 'draw_agreed' }
+    | { type: 'game_won', winner: PlayerColor }
+    | { type: 'game_drawn' };
+
+// Options a client can pass to `create_game`
+export interface CreateGameOptions {
+    vsComputer?: { difficulty: AiDifficulty, humanColor: PlayerColor };
+    board?: BoardConfig; // Defaults to the classic board
+    timeControl?: TimeControl | null; // Untimed if not given
+    rules?: SabotageRules; // Defaults to the original sabotage rules
+    bestOf?: number; // Play a match of this many games; a single game (with open-ended rematches) if not given
+}
+
+// Settings a client asks for when joining the quick match queue; only identical requests are paired
+export type QuickMatchOptions = Pick<CreateGameOptions, 'board' | 'timeControl' | 'rules'>;
+
+// An open game listed in the lobby, waiting for a second player
+export interface LobbyGame {
+    gameId: string;
+    config: BoardConfig;
+    timeControl: TimeControl | null;
+    rules: SabotageRules;
+    bestOf: number | null; // Length of the match, for games created as one
+    createdAt: number; // Server timestamp (ms)
+}
+
+// Pushed to every socket watching the lobby whenever it changes
+export interface LobbyUpdate {
+    games: LobbyGame[];
+    queueSize: number; // Players waiting in the quick match queue
+}
+
+// --- Players & Ratings ---
+// A registered player as they see themselves (the secret token is only sent once, at registration)
+export interface PlayerProfile {
+    playerId: string;
+    nickname: string;
+    rating: number;
+    gamesPlayed: number;
+    wins: number;
+    losses: number;
+    draws: number;
+}
+
+// Who is sitting in a seat, as stored with the game. Guests (and the computer) have no identity.
+export interface SeatIdentity {
+    playerId: string;
+    nickname: string;
+    rating: number;
+}
+
+// What everyone in the room sees about a seat's player
+export type PublicPlayer = Omit<SeatIdentity, 'playerId'>;
+
+export interface LeaderboardEntry {
+    rank: number;
+    nickname: string;
+    rating: number;
+    gamesPlayed: number;
+    wins: number;
+    losses: number;
+    draws: number;
+}
+
+// A line in a game's chat: typed text or one of the canned quick reactions
+export interface ChatMessage {
+    id: number; // Increasing within a game
+    from: PlayerColor;
+    kind: 'text' | 'reaction';
+    text: string;
+    at: number; // Server timestamp (ms)
+}
+
+// One applied action in a game's history, with what it caused
+export interface HistoryEntry {
+    action: GameAction;
+    events: GameEvent[];
+    at: number; // Server timestamp (ms)
+}
+
+// The part of a game the rules engine (src/lib/rules.ts) reads and writes
+export interface RulesState {
+    config: BoardConfig;
+    rules: SabotageRules;
     board: Board;
+    currentPlayer: Player;
+    winner: Player | null;
+    isDraw: boolean;
+    gamePhase: GamePhase;
+    redSabotage: SabotageSpot[]; // Up to `rules.spotsPerPlayer` each
+    yellowSabotage: SabotageSpot[];
+    triggeredSpots: TriggeredSpot[]; // Every spot landed on so far, oldest first
+    overlapJustTriggered: Player | null;
+    sabotageTriggeredBy: Player | null;
+    pendingReselect: { red: boolean, yellow: boolean };
+    drawOfferedBy: Player; // Open until the other player drops a piece
+}
+
+// Full server-side game state: the rules state plus who is sitting where
+export interface GameState extends RulesState {
     players: { [key: string]: Player };
     playerSockets: { red: string | null, yellow: string | null };
+    rematchRequested: { red: boolean, yellow: boolean };
+    sessionTokens: { red: string | null, yellow: string | null }; // Secret per seat, used to rejoin after a drop
+    disconnected: { red: boolean, yellow: boolean }; // Seat held while its player reconnects
+    history: HistoryEntry[]; // Every applied action, oldest first
+    computer: { color: PlayerColor, difficulty: AiDifficulty } | null; // Seat played by the server's AI
+    clock: GameClock | null; // null for untimed games
+    createdAt: number; // Server timestamp (ms)
+    chat: ChatMessage[]; // Recent chat, kept across rematches
+    identities: { red: SeatIdentity | null, yellow: SeatIdentity | null }; // Registered players, for ratings
+    takebackRequestedBy: Player; // Open until the other player drops a piece
+    tournament: TournamentGameRef | null; // Set for games played in a tournament match
+    series: MatchSeries | null; // Set when the game was created as a best-of-N match
+}
+
+// What a single socket is allowed to see of a game. Built per recipient by the server:
+// only the recipient's own Sabotage Spaces are included, and every spot is revealed once
+// the game is over. Nobody is sent anyone else's socket id, only which seats are taken.
+export interface PlayerGameView {
+    config: BoardConfig;
+    rules: SabotageRules;
+    board: Board;
+    seated: { red: boolean, yellow: boolean };
+    viewerColor: Player; // null for anyone who isn't seated in the game
     currentPlayer: Player;
     winner: Player | null;
     isDraw: boolean;
     gamePhase: GamePhase;
-    redSabotage: SabotageSpot;
-    yellowSabotage: SabotageSpot;
+    mySabotage: SabotageSpot[];
+    revealedSabotage: { red: SabotageSpot[], yellow: SabotageSpot[] } | null; // Only set at game_over
+    triggeredSpots: TriggeredSpot[]; // Only set with `rules.revealTriggered`, or at game_over
     overlapJustTriggered: Player | null;
-    sabotageTriggeredBy: Player | null;
+    sabotageTriggeredBy: Player | null; // Only set when the trigger is public (opponent's spot)
     rematchRequested: { red: boolean, yellow: boolean };
-    pendingReselect: { red: boolean, yellow: boolean };
-} 
\ No newline at end of file
+    disconnected: { red: boolean, yellow: boolean };
+    spectatorCount: number;
+    computer: { color: PlayerColor, difficulty: AiDifficulty } | null;
+    history: HistoryEntry[] | null; // Only set at game_over (it contains both players' Sabotage Spaces)
+    myPendingReselect: boolean;
+    clock: ClockView | null;
+    chat: ChatMessage[];
+    identities: { red: PublicPlayer | null, yellow: PublicPlayer | null };
+    drawOfferedBy: Player;
+    takebackRequestedBy: Player;
+    canRequestTakeback: boolean; // The viewer's last drop can still be taken back
+    tournament: TournamentGameRef | null;
+    series: MatchSeries | null;
+}
+
+// A game as the HTTP API shows it: what a spectator sees, without the seat-specific fields
+export type PublicGameView = Omit<PlayerGameView, 'viewerColor' | 'mySabotage' | 'myPendingReselect' | 'canRequestTakeback'>;
+
+// --- Tournaments ---
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+export type TournamentStatus = 'registering' | 'in_progress' | 'finished';
+
+// Only registered players can enter, so results count towards their ratings too
+export interface TournamentEntrant {
+    playerId: string;
+    nickname: string;
+    rating: number; // When the tournament started (or when they registered, before that)
+    seed: number; // 1 is the top seed; 0 until the tournament starts
+}
+
+// One pairing, played as a best-of-N series in a single room. In a bracket, later rounds'
+// players fill in as earlier matches finish.
+export interface TournamentMatch {
+    matchId: string; // e.g. "r2m1": round 2, match 1
+    round: number; // From 1
+    players: [string | null, string | null]; // playerIds; the first plays Red in the first game
+    wins: [number, number];
+    draws: number;
+    gameId: string | null; // The room the match is played in, once it has started
+    status: 'pending' | 'playing' | 'finished' | 'bye';
+    winner: string | null; // null until decided, and for a drawn round-robin match
+    walkover: boolean; // Decided because a player didn't take their seat or stopped playing
+}
+
+export interface TournamentSettings {
+    config: BoardConfig;
+    timeControl: TimeControl | null;
+    rules: SabotageRules;
+}
+
+export interface Tournament {
+    tournamentId: string;
+    name: string;
+    format: TournamentFormat;
+    bestOf: number; // Games per match: 1, 3, 5 or 7
+    organizerId: string; // playerId of whoever created it; only they can start it
+    status: TournamentStatus;
+    entrants: TournamentEntrant[];
+    matches: TournamentMatch[]; // Every round's matches, created when the tournament starts
+    settings: TournamentSettings; // Used for every game
+    createdAt: number; // Server timestamp (ms)
+    championId: string | null;
+}
+
+export interface TournamentStanding {
+    rank: number;
+    playerId: string;
+    nickname: string;
+    matchWins: number;
+    matchLosses: number;
+    matchDraws: number;
+    gameWins: number;
+    gameLosses: number;
+    points: number; // 1 per match won, 1/2 per drawn match
+    eliminated: boolean; // Knocked out of a bracket
+}
+
+// What the tournament page shows, pushed live to everyone watching it
+export interface TournamentView extends Tournament {
+    standings: TournamentStanding[];
+}
+
+// A line in the list of tournaments
+export interface TournamentSummary {
+    tournamentId: string;
+    name: string;
+    format: TournamentFormat;
+    bestOf: number;
+    status: TournamentStatus;
+    entrantCount: number;
+    createdAt: number;
+}
+
+// Options for `create_tournament`; board, time control and rules default as for `create_game`
+export interface CreateTournamentOptions extends QuickMatchOptions {
+    name: string;
+    format: TournamentFormat;
+    bestOf: number;
+}
+
+// Which tournament match a game belongs to
+export interface TournamentGameRef {
+    tournamentId: string;
+    matchId: string;
+    matchDecided: boolean; // Set once the match has a result, so no further game follows
+}
+
+// --- Socket Protocol ---
+// Every Socket.IO event, used as the socket generics on both ends. Client payloads are also
+// checked at runtime by `validateClientPayload` (src/lib/protocol.ts) before a handler runs.
+
+// Why a request was refused. `message` is for people; clients branch on `code`.
+export type ErrorCode =
+    | 'invalid_payload' // Malformed event data (wrong types, missing fields)
+    | 'invalid_settings' // Board, time control or rule variant out of range
+    | 'game_not_found'
+    | 'game_full'
+    | 'not_in_game' // The socket has no seat in that game
+    | 'action_rejected' // The rules (or the game's current state) don't allow it right now
+    | 'already_playing'
+    | 'seat_unavailable' // Rejoin with an unknown or outdated session token
+    | 'nickname_rejected'
+    | 'unknown_player'
+    | 'rate_limited'
+    | 'too_many_games' // The connection already sits in as many games as it may
+    | 'server_full'
+    | 'tournament_not_found'
+    | 'registration_closed' // The tournament has already started
+    | 'not_organizer';
+
+export interface ProtocolError {
+    code: ErrorCode;
+    message: string;
+}
+
+// Why a game was closed for good: a player left (or never came back), or the server swept
+// it up after it sat unjoined, idle mid-game, or finished without a rematch for too long
+export type GameCloseReason = 'player_left' | 'unjoined' | 'idle' | 'finished';
+
+export interface SeatAssignment {
+    gameId: string;
+    playerColor: PlayerColor;
+    sessionToken: string; // Keep it to rejoin the seat after a dropped connection
+}
+
+export interface ClientToServerEvents {
+    create_game: (options?: CreateGameOptions) => void;
+    join_game: (gameId: string) => void;
+    spectate_game: (gameId: string) => void;
+    rejoin_game: (payload: { gameId: string, sessionToken: string }) => void;
+    leave_game: (payload: { gameId: string }) => void;
+    select_sabotage: (payload: { gameId: string, row: number, col: number }) => void;
+    make_move: (payload: { gameId: string, col: number }) => void;
+    resign: (payload: { gameId: string }) => void;
+    offer_draw: (payload: { gameId: string }) => void;
+    accept_draw: (payload: { gameId: string }) => void;
+    request_takeback: (payload: { gameId: string }) => void;
+    accept_takeback: (payload: { gameId: string }) => void;
+    request_rematch: (payload: { gameId: string }) => void;
+    lobby_subscribe: () => void;
+    lobby_unsubscribe: () => void;
+    quick_match: (options?: QuickMatchOptions) => void;
+    cancel_quick_match: () => void;
+    register_player: (payload: { nickname: string }) => void;
+    identify_player: (payload: { playerId: string, token: string }) => void;
+    send_chat: (payload: { gameId: string, text: string }) => void;
+    send_reaction: (payload: { gameId: string, reaction: string }) => void;
+    create_tournament: (options: CreateTournamentOptions) => void;
+    tournament_subscribe: (tournamentId: string) => void;
+    tournament_unsubscribe: (tournamentId: string) => void;
+    register_for_tournament: (payload: { tournamentId: string }) => void;
+    withdraw_from_tournament: (payload: { tournamentId: string }) => void;
+    start_tournament: (payload: { tournamentId: string }) => void;
+    claim_tournament_seat: (payload: { tournamentId: string, matchId: string }) => void;
+}
+
+export interface ServerToClientEvents {
+    game_created: (seat: SeatAssignment) => void;
+    game_joined: (seat: SeatAssignment) => void;
+    match_found: (seat: SeatAssignment) => void;
+    game_rejoined: (payload: { gameId: string, playerColor: PlayerColor }) => void;
+    spectate_joined: (payload: { gameId: string }) => void;
+    game_update: (view: PlayerGameView) => void;
+    opponent_left: () => void;
+    game_closed: (payload: { reason: GameCloseReason }) => void; // To everyone left in the room
+    lobby_update: (update: LobbyUpdate) => void;
+    quick_match_queued: () => void;
+    quick_match_cancelled: () => void;
+    player_registered: (payload: { token: string, profile: PlayerProfile }) => void;
+    player_identified: (payload: { profile: PlayerProfile }) => void;
+    tournament_created: (payload: { tournamentId: string }) => void;
+    tournament_update: (view: TournamentView) => void; // To everyone subscribed to the tournament
+    tournament_seat: (seat: SeatAssignment) => void; // Take the seat with `rejoin_game`
+    // Errors go out on the event that matches the request (see `errorEventFor`)
+    game_error: (error: ProtocolError) => void;
+    join_error: (error: ProtocolError) => void;
+    rejoin_error: (error: ProtocolError) => void;
+    register_error: (error: ProtocolError) => void;
+    identity_error: (error: ProtocolError) => void;
+    chat_error: (error: ProtocolError) => void;
+    tournament_error: (error: ProtocolError) => void;
+}
+
+// Per-socket data the server keeps between events
+export interface SocketData {
+    playerId?: string; // Set once the socket registers or identifies
+}